@@ -0,0 +1,139 @@
+/**
+ * Connected Spotify accounts and caller resolution
+ *
+ * Each account is identified by its Spotify user id. Callers act on an account either
+ * with one of that account's API keys (see apikeys.ts), or with the deployment-wide
+ * AUTOMATION_KEY plus an optional X-Spotify-Account header (falls back to the default
+ * account).
+ */
+
+import { Env, deleteLegacyTokens, readLegacyTokens, writeTokens } from './storage';
+import { checkAutomationKey } from './security';
+import { API_SCOPES, ApiScope, authenticateApiKey } from './apikeys';
+import { fetchCurrentUser, isExpiring, refreshAccessToken } from './spotify';
+
+export interface Account {
+  id: string; // Spotify user id
+  display_name: string | null;
+  created_at: number; // Unix timestamp in seconds
+  updated_at: number; // Unix timestamp in seconds
+}
+
+export type CallerResolution =
+  | { ok: true; accountId: string; scopes: ApiScope[]; keyId: string | null; label: string }
+  | { ok: false; code: 'INVALID_AUTOMATION_KEY' | 'NO_ACCOUNT_SELECTED' };
+
+const ACCOUNT_KEY_PREFIX = 'account:';
+const DEFAULT_ACCOUNT_KEY = 'default_account';
+const ADMIN_KEY_LABEL = 'admin key'; // Caller label for the deployment-wide AUTOMATION_KEY
+
+/**
+ * Read an account record from KV storage
+ */
+export async function readAccount(env: Env, accountId: string): Promise<Account | null> {
+  try {
+    const data = await env.TOKENS_KV.get(`${ACCOUNT_KEY_PREFIX}${accountId}`);
+    return data ? (JSON.parse(data) as Account) : null;
+  } catch (error) {
+    console.error('Error reading account from KV:', error);
+    return null;
+  }
+}
+
+async function writeAccount(env: Env, account: Account): Promise<void> {
+  await env.TOKENS_KV.put(`${ACCOUNT_KEY_PREFIX}${account.id}`, JSON.stringify(account));
+}
+
+/**
+ * Create or update the account record after a successful login.
+ * The first account ever connected becomes the default account for the admin key.
+ */
+export async function upsertAccount(
+  env: Env,
+  accountId: string,
+  displayName: string | null
+): Promise<Account> {
+  const now = Math.floor(Date.now() / 1000);
+  const existing = await readAccount(env, accountId);
+
+  const account: Account = existing
+    ? { ...existing, display_name: displayName, updated_at: now }
+    : {
+        id: accountId,
+        display_name: displayName,
+        created_at: now,
+        updated_at: now,
+      };
+
+  await writeAccount(env, account);
+
+  const defaultAccount = await env.TOKENS_KV.get(DEFAULT_ACCOUNT_KEY);
+  if (!defaultAccount) {
+    await env.TOKENS_KV.put(DEFAULT_ACCOUNT_KEY, accountId);
+  }
+
+  return account;
+}
+
+/**
+ * Move the connection stored by deployments from before accounts existed to an account
+ * of its own, which becomes the default account. Returns that account's id, or null when
+ * there is nothing to migrate or the Spotify user cannot be looked up.
+ */
+export async function migrateLegacyTokens(env: Env): Promise<string | null> {
+  const legacy = await readLegacyTokens(env);
+  if (!legacy) {
+    return null;
+  }
+
+  try {
+    const tokens = isExpiring(legacy)
+      ? await refreshAccessToken(legacy.refresh_token, env)
+      : legacy;
+    const user = await fetchCurrentUser(tokens.access_token, env);
+
+    await writeTokens(tokens, env, user.id);
+    await upsertAccount(env, user.id, user.display_name);
+    await deleteLegacyTokens(env);
+    return (await env.TOKENS_KV.get(DEFAULT_ACCOUNT_KEY)) ?? user.id;
+  } catch (error) {
+    console.error('Error migrating legacy tokens:', error);
+    return null;
+  }
+}
+
+/**
+ * Resolve which account the caller is acting on, and with which scopes, from the
+ * request credentials
+ */
+export async function resolveCaller(request: Request, env: Env): Promise<CallerResolution> {
+  const providedKey = request.headers.get('X-Automation-Key');
+  if (!providedKey) {
+    return { ok: false, code: 'INVALID_AUTOMATION_KEY' };
+  }
+
+  if (checkAutomationKey(request, env)) {
+    const accountId =
+      request.headers.get('X-Spotify-Account') ||
+      (await env.TOKENS_KV.get(DEFAULT_ACCOUNT_KEY)) ||
+      (await migrateLegacyTokens(env));
+    if (!accountId) {
+      return { ok: false, code: 'NO_ACCOUNT_SELECTED' };
+    }
+    // The deployment-wide key is all-powerful; keyId null marks it in responses
+    return { ok: true, accountId, scopes: [...API_SCOPES], keyId: null, label: ADMIN_KEY_LABEL };
+  }
+
+  const authenticated = await authenticateApiKey(env, providedKey);
+  if (!authenticated) {
+    return { ok: false, code: 'INVALID_AUTOMATION_KEY' };
+  }
+
+  return {
+    ok: true,
+    accountId: authenticated.accountId,
+    scopes: authenticated.key.scopes,
+    keyId: authenticated.key.id,
+    label: authenticated.key.label,
+  };
+}
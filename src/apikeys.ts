@@ -0,0 +1,261 @@
+/**
+ * Scoped, revocable API keys
+ *
+ * Each account can hold several keys (one per Shortcut, widget or script), each with a
+ * label, a set of scopes and an optional expiry. Keys are only stored as SHA-256 hashes:
+ * `api_key:<hash>` points at the owning account, and the account's key records (without
+ * the plain key) live under `api_keys:<accountId>`.
+ */
+
+import { Env } from './storage';
+import { constantTimeEqual, generateAutomationKey, hashAutomationKey } from './security';
+
+export type ApiScope = 'devices:read' | 'player:read' | 'player:control' | 'transfer' | 'admin';
+
+export const API_SCOPES: ApiScope[] = [
+  'devices:read',
+  'player:read',
+  'player:control',
+  'transfer',
+  'admin',
+];
+
+export interface ApiKey {
+  id: string;
+  label: string;
+  scopes: ApiScope[];
+  key_hash: string;
+  created_at: number; // Unix timestamp in seconds
+  expires_at: number | null; // Unix timestamp in seconds
+  last_used_at: number | null; // Unix timestamp in seconds
+  revoked_at: number | null; // Unix timestamp in seconds
+}
+
+export interface ApiKeyInput {
+  label: string;
+  scopes: ApiScope[];
+  expires_at: number | null;
+}
+
+interface ApiKeyLookup {
+  accountId: string;
+  id: string;
+}
+
+const API_KEY_HASH_PREFIX = 'api_key:';
+const API_KEYS_PREFIX = 'api_keys:';
+// Personal keys issued before scoped keys existed: hash -> account id
+const LEGACY_ACCOUNT_KEY_PREFIX = 'account_key:';
+export const MAX_LABEL_LENGTH = 64;
+// last_used_at is only rewritten once a minute, to keep KV writes per request down
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+/**
+ * Check whether a key grants a scope. `admin` grants every scope.
+ */
+export function hasScope(scopes: ApiScope[], required: ApiScope): boolean {
+  return scopes.includes('admin') || scopes.includes(required);
+}
+
+/**
+ * Strip the stored hash from a key record before returning it to a caller
+ */
+export function describeApiKey(key: ApiKey): Omit<ApiKey, 'key_hash'> {
+  const { key_hash: _keyHash, ...rest } = key;
+  return rest;
+}
+
+/**
+ * Validate a key from a request body
+ * Body fields: label (required), scopes (required, non-empty), expiresInDays?
+ * Returns the normalized fields, or a human-readable problem
+ */
+export function parseApiKeyInput(body: Record<string, unknown>): ApiKeyInput | { error: string } {
+  const { label, scopes, expiresInDays } = body;
+
+  if (typeof label !== 'string' || label.trim() === '' || label.length > MAX_LABEL_LENGTH) {
+    return { error: `label is required and must be at most ${MAX_LABEL_LENGTH} characters` };
+  }
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every((scope) => API_SCOPES.includes(scope as ApiScope))
+  ) {
+    return { error: `scopes is required and must be an array of ${API_SCOPES.join(', ')}` };
+  }
+  if (
+    expiresInDays !== undefined &&
+    expiresInDays !== null &&
+    (typeof expiresInDays !== 'number' || !(expiresInDays > 0))
+  ) {
+    return { error: 'expiresInDays must be a positive number' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    label: label.trim(),
+    scopes: Array.from(new Set(scopes as ApiScope[])),
+    expires_at:
+      typeof expiresInDays === 'number' ? now + Math.round(expiresInDays * 24 * 60 * 60) : null,
+  };
+}
+
+/**
+ * Read all key records for an account, including revoked and expired ones
+ */
+export async function listApiKeys(env: Env, accountId: string): Promise<ApiKey[]> {
+  try {
+    const data = await env.TOKENS_KV.get(`${API_KEYS_PREFIX}${accountId}`);
+    return data ? (JSON.parse(data) as ApiKey[]) : [];
+  } catch (error) {
+    console.error('Error reading API keys from KV:', error);
+    return [];
+  }
+}
+
+async function writeApiKeys(env: Env, accountId: string, keys: ApiKey[]): Promise<void> {
+  await env.TOKENS_KV.put(`${API_KEYS_PREFIX}${accountId}`, JSON.stringify(keys));
+}
+
+function isUsable(key: ApiKey, now: number): boolean {
+  return key.revoked_at === null && (key.expires_at === null || key.expires_at > now);
+}
+
+/**
+ * Check whether an account still has a key that can be used
+ */
+export async function hasActiveApiKey(env: Env, accountId: string): Promise<boolean> {
+  const now = Math.floor(Date.now() / 1000);
+  return (await listApiKeys(env, accountId)).some((key) => isUsable(key, now));
+}
+
+async function storeApiKey(
+  env: Env,
+  accountId: string,
+  keyHash: string,
+  input: ApiKeyInput
+): Promise<ApiKey> {
+  const record: ApiKey = {
+    id: crypto.randomUUID(),
+    label: input.label,
+    scopes: input.scopes,
+    key_hash: keyHash,
+    created_at: Math.floor(Date.now() / 1000),
+    expires_at: input.expires_at,
+    last_used_at: null,
+    revoked_at: null,
+  };
+
+  const lookup: ApiKeyLookup = { accountId, id: record.id };
+  await env.TOKENS_KV.put(`${API_KEY_HASH_PREFIX}${keyHash}`, JSON.stringify(lookup));
+  await writeApiKeys(env, accountId, [...(await listApiKeys(env, accountId)), record]);
+
+  return record;
+}
+
+/**
+ * Issue a new key for an account
+ * Returns the plain key (only shown once) along with its stored record
+ */
+export async function issueApiKey(
+  env: Env,
+  accountId: string,
+  input: ApiKeyInput
+): Promise<{ key: string; record: ApiKey }> {
+  const key = generateAutomationKey();
+  const record = await storeApiKey(env, accountId, await hashAutomationKey(key), input);
+  return { key, record };
+}
+
+/**
+ * Revoke a key. The record is kept (marked revoked) so it still shows up in listings.
+ * Returns the revoked record, or null when the account has no key with that id.
+ */
+export async function revokeApiKey(
+  env: Env,
+  accountId: string,
+  id: string
+): Promise<ApiKey | null> {
+  const keys = await listApiKeys(env, accountId);
+  const key = keys.find((candidate) => candidate.id === id);
+  if (!key) {
+    return null;
+  }
+
+  await env.TOKENS_KV.delete(`${API_KEY_HASH_PREFIX}${key.key_hash}`);
+  if (key.revoked_at !== null) {
+    return key;
+  }
+
+  const revoked: ApiKey = { ...key, revoked_at: Math.floor(Date.now() / 1000) };
+  await writeApiKeys(
+    env,
+    accountId,
+    keys.map((candidate) => (candidate.id === id ? revoked : candidate))
+  );
+  return revoked;
+}
+
+/**
+ * Move a personal key issued before scoped keys existed into the key store,
+ * with every scope, so it keeps working
+ */
+async function migrateLegacyAccountKey(
+  env: Env,
+  keyHash: string
+): Promise<{ accountId: string; key: ApiKey } | null> {
+  const legacyKey = `${LEGACY_ACCOUNT_KEY_PREFIX}${keyHash}`;
+  const accountId = await env.TOKENS_KV.get(legacyKey);
+  if (!accountId) {
+    return null;
+  }
+
+  const key = await storeApiKey(env, accountId, keyHash, {
+    label: 'Personal key',
+    scopes: [...API_SCOPES],
+    expires_at: null,
+  });
+  await env.TOKENS_KV.delete(legacyKey);
+  return { accountId, key };
+}
+
+/**
+ * Look up the key a caller presented
+ * Returns the owning account and key record, or null when the key is unknown, revoked
+ * or expired. Also records when the key was last used.
+ */
+export async function authenticateApiKey(
+  env: Env,
+  providedKey: string
+): Promise<{ accountId: string; key: ApiKey } | null> {
+  const keyHash = await hashAutomationKey(providedKey);
+  const data = await env.TOKENS_KV.get(`${API_KEY_HASH_PREFIX}${keyHash}`);
+  if (!data) {
+    return migrateLegacyAccountKey(env, keyHash);
+  }
+
+  const lookup = JSON.parse(data) as ApiKeyLookup;
+  const keys = await listApiKeys(env, lookup.accountId);
+  const key = keys.find((candidate) => candidate.id === lookup.id);
+  const now = Math.floor(Date.now() / 1000);
+  if (!key || !constantTimeEqual(key.key_hash, keyHash) || !isUsable(key, now)) {
+    return null;
+  }
+
+  if (key.last_used_at === null || now - key.last_used_at >= LAST_USED_RESOLUTION_SECONDS) {
+    const used: ApiKey = { ...key, last_used_at: now };
+    try {
+      await writeApiKeys(
+        env,
+        lookup.accountId,
+        keys.map((candidate) => (candidate.id === key.id ? used : candidate))
+      );
+    } catch (error) {
+      // Usage tracking must never block the request itself
+      console.error('Error recording API key usage:', error);
+    }
+    return { accountId: lookup.accountId, key: used };
+  }
+
+  return { accountId: lookup.accountId, key };
+}
@@ -0,0 +1,47 @@
+/**
+ * Per-device default volumes: a volume (0-100) stored for a Spotify device id and set
+ * after a transfer to that device by id, when the request does not ask for a volume
+ */
+
+import { Env } from './storage';
+import { StoredVolume } from './volume';
+
+const DEVICE_VOLUMES_KEY_PREFIX = 'device_volumes:';
+
+/**
+ * Read an account's default volumes, keyed by device id
+ */
+export async function readDeviceVolumes(
+  env: Env,
+  accountId: string
+): Promise<Record<string, number>> {
+  try {
+    const data = await env.TOKENS_KV.get(`${DEVICE_VOLUMES_KEY_PREFIX}${accountId}`);
+    return data ? (JSON.parse(data) as Record<string, number>) : {};
+  } catch (error) {
+    console.error('Error reading device volumes from KV:', error);
+    return {};
+  }
+}
+
+/**
+ * Write an account's default volumes
+ */
+export async function writeDeviceVolumes(
+  env: Env,
+  accountId: string,
+  volumes: Record<string, number>
+): Promise<void> {
+  await env.TOKENS_KV.put(`${DEVICE_VOLUMES_KEY_PREFIX}${accountId}`, JSON.stringify(volumes));
+}
+
+/**
+ * The default volume stored for a device, if any
+ */
+export function deviceDefaultVolume(
+  volumes: Record<string, number>,
+  deviceId: string
+): StoredVolume | undefined {
+  const percent = volumes[deviceId];
+  return typeof percent === 'number' ? { source: 'device', percent } : undefined;
+}
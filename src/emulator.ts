@@ -0,0 +1,499 @@
+/**
+ * Fake Spotify for local testing: a standalone Worker that emulates the parts of the
+ * Spotify accounts service and Web API this worker uses. Not part of the deployed worker.
+ *
+ * Run it next to the worker with `npm run emulator` (port 8788) and point the worker at it:
+ *   SPOTIFY_AUTH_URL=http://127.0.0.1:8788/authorize
+ *   SPOTIFY_TOKEN_URL=http://127.0.0.1:8788/api/token
+ *   SPOTIFY_API_BASE=http://127.0.0.1:8788/v1
+ *
+ * Emulated: GET /authorize (consents immediately), POST /api/token (authorization_code,
+ * with PKCE, and refresh_token), GET /v1/me, GET /v1/me/player, GET /v1/me/player/devices,
+ * PUT /v1/me/player, PUT /v1/me/player/play?device_id= and PUT /v1/me/player/volume. Devices
+ * without supports_volume (by default, those whose volume_percent is null) reject volume
+ * changes. Tests script it through /_emulator:
+ *   GET  /_emulator/state     Devices, issued tokens and the log of requests received
+ *   PUT  /_emulator/devices   { devices: [{ id, name, type?, is_active?, is_restricted?,
+ *                                           volume_percent?, supports_volume? }] }
+ *   POST /_emulator/failures  { status, method?, path?, times?, retryAfter?, reason?, message? }
+ *                             Fails the next matching requests (404, 429, 5xx, ...)
+ *   POST /_emulator/revoke    Revokes every refresh token (refreshes get invalid_grant)
+ *   POST /_emulator/expire    Expires every access token (API calls get 401)
+ *   PUT  /_emulator/token-lifetime  { seconds } expires_in of access tokens issued from now
+ *   POST /_emulator/reset     Back to the initial state
+ *
+ * State lives in memory, so it only holds while a single isolate serves every request,
+ * which is the case under `wrangler dev`.
+ */
+
+import { SpotifyDevice } from './spotify';
+
+interface InjectedFailure {
+  status: number;
+  method: string | null; // null matches any method
+  path: string | null; // Exact path, e.g. "/v1/me/player"; null matches any emulated path
+  times: number; // Requests left to fail
+  retryAfter: number | null; // Seconds, sent as Retry-After
+  reason: string | null; // Spotify player error reason, e.g. "NO_ACTIVE_DEVICE"
+  message: string | null;
+}
+
+interface EmulatorState {
+  user: { id: string; display_name: string };
+  devices: SpotifyDevice[];
+  isPlaying: boolean;
+  accessTokenTtlSeconds: number;
+  codes: Map<string, { redirectUri: string; codeChallenge: string | null }>;
+  accessTokens: Set<string>;
+  refreshTokens: Set<string>;
+  failures: InjectedFailure[];
+  requests: { method: string; path: string; status: number }[];
+}
+
+const ACCESS_TOKEN_TTL_SECONDS = 3600;
+const MAX_LOGGED_REQUESTS = 200;
+
+const DEFAULT_DEVICES: SpotifyDevice[] = [
+  {
+    id: 'phone',
+    name: 'Phone',
+    type: 'Smartphone',
+    is_active: true,
+    is_private_session: false,
+    is_restricted: false,
+    volume_percent: 60,
+    supports_volume: true,
+  },
+  {
+    id: 'echo-dot',
+    name: 'Echo Dot',
+    type: 'Speaker',
+    is_active: false,
+    is_private_session: false,
+    is_restricted: false,
+    volume_percent: 40,
+    supports_volume: true,
+  },
+];
+
+function initialState(): EmulatorState {
+  return {
+    user: { id: 'emulator_user', display_name: 'Emulator User' },
+    devices: DEFAULT_DEVICES.map((device) => ({ ...device })),
+    isPlaying: true,
+    accessTokenTtlSeconds: ACCESS_TOKEN_TTL_SECONDS,
+    codes: new Map(),
+    accessTokens: new Set(),
+    refreshTokens: new Set(),
+    failures: [],
+    requests: [],
+  };
+}
+
+let state = initialState();
+
+function json(data: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Error body in the Web API's format: { error: { status, message, reason? } }
+ */
+function apiError(status: number, message: string, reason?: string | null): Response {
+  return json({ error: { status, message, ...(reason && { reason }) } }, status);
+}
+
+function tokenError(error: string, description: string): Response {
+  return json({ error, error_description: description }, 400);
+}
+
+function randomToken(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+async function s256(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return btoa(String.fromCharCode(...new Uint8Array(digest)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function issueTokens(refreshToken: string | null): Record<string, unknown> {
+  const accessToken = randomToken('access');
+  state.accessTokens.add(accessToken);
+
+  const tokens: Record<string, unknown> = {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: state.accessTokenTtlSeconds,
+    scope: 'user-read-playback-state user-modify-playback-state',
+  };
+  // Like Spotify, refreshes usually keep the existing refresh token and omit it
+  if (!refreshToken) {
+    const issued = randomToken('refresh');
+    state.refreshTokens.add(issued);
+    tokens.refresh_token = issued;
+  }
+  return tokens;
+}
+
+/**
+ * Take the next injected failure matching a request, if any
+ */
+function takeFailure(method: string, path: string): Response | null {
+  const index = state.failures.findIndex(
+    (failure) =>
+      (failure.method === null || failure.method === method) &&
+      (failure.path === null || failure.path === path)
+  );
+  if (index === -1) {
+    return null;
+  }
+
+  const failure = state.failures[index];
+  failure.times--;
+  if (failure.times <= 0) {
+    state.failures.splice(index, 1);
+  }
+
+  const response = apiError(
+    failure.status,
+    failure.message ?? `Injected ${failure.status} failure`,
+    failure.reason
+  );
+  if (failure.retryAfter !== null) {
+    response.headers.set('Retry-After', String(failure.retryAfter));
+  }
+  return response;
+}
+
+function handleAuthorize(url: URL): Response {
+  const redirectUri = url.searchParams.get('redirect_uri');
+  if (!url.searchParams.get('client_id') || !redirectUri) {
+    return new Response('client_id and redirect_uri are required', { status: 400 });
+  }
+
+  const code = randomToken('code');
+  state.codes.set(code, {
+    redirectUri,
+    codeChallenge: url.searchParams.get('code_challenge'),
+  });
+
+  const location = new URL(redirectUri);
+  location.searchParams.set('code', code);
+  const stateParam = url.searchParams.get('state');
+  if (stateParam) {
+    location.searchParams.set('state', stateParam);
+  }
+  return new Response(null, { status: 302, headers: { Location: location.toString() } });
+}
+
+async function handleToken(request: Request): Promise<Response> {
+  const params = new URLSearchParams(await request.text());
+  const hasClient =
+    params.get('client_id') || request.headers.get('Authorization')?.startsWith('Basic ');
+  if (!hasClient) {
+    return json({ error: 'invalid_client', error_description: 'Missing client' }, 401);
+  }
+
+  if (params.get('grant_type') === 'authorization_code') {
+    const code = params.get('code') ?? '';
+    const grant = state.codes.get(code);
+    state.codes.delete(code);
+    if (!grant || grant.redirectUri !== params.get('redirect_uri')) {
+      return tokenError('invalid_grant', 'Invalid authorization code');
+    }
+    if (grant.codeChallenge) {
+      const verifier = params.get('code_verifier');
+      if (!verifier || (await s256(verifier)) !== grant.codeChallenge) {
+        return tokenError('invalid_grant', 'code_verifier was incorrect');
+      }
+    }
+    return json(issueTokens(null));
+  }
+
+  if (params.get('grant_type') === 'refresh_token') {
+    const refreshToken = params.get('refresh_token') ?? '';
+    if (!state.refreshTokens.has(refreshToken)) {
+      return tokenError('invalid_grant', 'Refresh token revoked');
+    }
+    return json(issueTokens(refreshToken));
+  }
+
+  return tokenError(
+    'unsupported_grant_type',
+    'grant_type must be authorization_code or refresh_token'
+  );
+}
+
+function playbackState(): Record<string, unknown> | null {
+  const device = state.devices.find((candidate) => candidate.is_active);
+  if (!device) {
+    return null;
+  }
+
+  return {
+    device,
+    is_playing: state.isPlaying,
+    progress_ms: 42000,
+    shuffle_state: false,
+    repeat_state: 'off',
+    currently_playing_type: 'track',
+    item: {
+      type: 'track',
+      uri: 'spotify:track:emulator',
+      name: 'Emulated Track',
+      duration_ms: 180000,
+      artists: [{ name: 'Emulator' }],
+      album: { name: 'Emulated Album', images: [] },
+    },
+  };
+}
+
+async function handleTransferPlayback(request: Request): Promise<Response> {
+  const body = await request
+    .json<{ device_ids?: string[]; play?: boolean }>()
+    .catch(() => ({}) as { device_ids?: string[]; play?: boolean });
+  const deviceId = body.device_ids?.[0];
+  if (!deviceId || body.device_ids?.length !== 1) {
+    return apiError(400, 'Exactly one device_id must be given');
+  }
+
+  const error = activateDevice(deviceId);
+  if (error) {
+    return error;
+  }
+  if (body.play) {
+    state.isPlaying = true;
+  }
+  return new Response(null, { status: 204 });
+}
+
+function activateDevice(deviceId: string): Response | null {
+  const device = state.devices.find((candidate) => candidate.id === deviceId);
+  if (!device) {
+    return apiError(404, 'Device not found');
+  }
+  if (device.is_restricted) {
+    return apiError(403, 'Player command failed: Restriction violated', 'DEVICE_NOT_CONTROLLABLE');
+  }
+
+  state.devices = state.devices.map((candidate) => ({
+    ...candidate,
+    is_active: candidate.id === deviceId,
+  }));
+  return null;
+}
+
+// Starts playback on the given device, or resumes on the active one; the content is ignored
+function handleStartPlayback(request: Request): Response {
+  const deviceId =
+    new URL(request.url).searchParams.get('device_id') ??
+    state.devices.find((candidate) => candidate.is_active)?.id;
+  if (!deviceId) {
+    return apiError(404, 'Player command failed: No active device found', 'NO_ACTIVE_DEVICE');
+  }
+
+  const error = activateDevice(deviceId);
+  if (error) {
+    return error;
+  }
+  state.isPlaying = true;
+  return new Response(null, { status: 204 });
+}
+
+function handleSetVolume(request: Request): Response {
+  const params = new URL(request.url).searchParams;
+  const percent = Number(params.get('volume_percent'));
+  if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+    return apiError(400, 'Invalid volume_percent');
+  }
+
+  const deviceId = params.get('device_id');
+  const device = deviceId
+    ? state.devices.find((candidate) => candidate.id === deviceId)
+    : state.devices.find((candidate) => candidate.is_active);
+  if (!device) {
+    return apiError(404, 'Player command failed: No active device found', 'NO_ACTIVE_DEVICE');
+  }
+  if (device.is_restricted || !device.supports_volume) {
+    return apiError(
+      403,
+      'Player command failed: Cannot control device volume',
+      'VOLUME_CONTROL_DISALLOW'
+    );
+  }
+
+  state.devices = state.devices.map((candidate) =>
+    candidate.id === device.id ? { ...candidate, volume_percent: percent } : candidate
+  );
+  return new Response(null, { status: 204 });
+}
+
+async function handleApi(request: Request, path: string): Promise<Response> {
+  const authorization = request.headers.get('Authorization') ?? '';
+  const accessToken = authorization.replace(/^Bearer /, '');
+  if (!state.accessTokens.has(accessToken)) {
+    return apiError(401, 'The access token expired');
+  }
+
+  if (request.method === 'GET' && path === '/v1/me') {
+    return json(state.user);
+  }
+  if (request.method === 'GET' && path === '/v1/me/player/devices') {
+    return json({ devices: state.devices });
+  }
+  if (request.method === 'GET' && path === '/v1/me/player') {
+    const playback = playbackState();
+    return playback ? json(playback) : new Response(null, { status: 204 });
+  }
+  if (request.method === 'PUT' && path === '/v1/me/player') {
+    return handleTransferPlayback(request);
+  }
+  if (request.method === 'PUT' && path === '/v1/me/player/play') {
+    return handleStartPlayback(request);
+  }
+  if (request.method === 'PUT' && path === '/v1/me/player/volume') {
+    return handleSetVolume(request);
+  }
+
+  return apiError(404, 'Service not found');
+}
+
+function toDevice(input: Partial<SpotifyDevice>, index: number): SpotifyDevice {
+  const volumePercent = input.volume_percent === undefined ? 50 : input.volume_percent;
+  return {
+    id: input.id ?? `device-${index + 1}`,
+    name: input.name ?? `Device ${index + 1}`,
+    type: input.type ?? 'Speaker',
+    is_active: input.is_active ?? false,
+    is_private_session: input.is_private_session ?? false,
+    is_restricted: input.is_restricted ?? false,
+    volume_percent: volumePercent,
+    supports_volume: input.supports_volume ?? volumePercent !== null,
+  };
+}
+
+/**
+ * Read a control request's JSON object body; anything else reads as an empty object
+ */
+async function readControlBody(request: Request): Promise<Record<string, unknown>> {
+  if (request.method === 'GET') {
+    return {};
+  }
+  const body = await request.json<unknown>().catch(() => null);
+  return typeof body === 'object' && body !== null && !Array.isArray(body)
+    ? (body as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * /_emulator control routes used by tests to script Spotify's behaviour
+ */
+async function handleControl(request: Request, path: string): Promise<Response> {
+  const body = await readControlBody(request);
+
+  if (request.method === 'GET' && path === '/_emulator/state') {
+    return json({
+      user: state.user,
+      devices: state.devices,
+      isPlaying: state.isPlaying,
+      accessTokens: state.accessTokens.size,
+      refreshTokens: state.refreshTokens.size,
+      failures: state.failures,
+      requests: state.requests,
+    });
+  }
+
+  if (request.method === 'PUT' && path === '/_emulator/devices') {
+    if (!Array.isArray(body.devices)) {
+      return json({ error: 'devices must be an array' }, 400);
+    }
+    state.devices = body.devices.map(toDevice);
+    return json({ devices: state.devices });
+  }
+
+  if (request.method === 'POST' && path === '/_emulator/failures') {
+    if (typeof body.status !== 'number' || body.status < 400) {
+      return json({ error: 'status must be an HTTP error status' }, 400);
+    }
+    const failure: InjectedFailure = {
+      status: body.status,
+      method: typeof body.method === 'string' ? body.method.toUpperCase() : null,
+      path: typeof body.path === 'string' ? body.path : null,
+      times: typeof body.times === 'number' && body.times > 0 ? body.times : 1,
+      retryAfter: typeof body.retryAfter === 'number' ? body.retryAfter : null,
+      reason: typeof body.reason === 'string' ? body.reason : null,
+      message: typeof body.message === 'string' ? body.message : null,
+    };
+    state.failures.push(failure);
+    return json({ failure }, 201);
+  }
+
+  if (request.method === 'POST' && path === '/_emulator/revoke') {
+    state.refreshTokens.clear();
+    return json({ revoked: true });
+  }
+
+  if (request.method === 'POST' && path === '/_emulator/expire') {
+    state.accessTokens.clear();
+    return json({ expired: true });
+  }
+
+  if (request.method === 'PUT' && path === '/_emulator/token-lifetime') {
+    if (!Number.isInteger(body.seconds) || (body.seconds as number) <= 0) {
+      return json({ error: 'seconds must be a positive integer' }, 400);
+    }
+    state.accessTokenTtlSeconds = body.seconds as number;
+    return json({ seconds: state.accessTokenTtlSeconds });
+  }
+
+  if (request.method === 'POST' && path === '/_emulator/reset') {
+    state = initialState();
+    return json({ reset: true });
+  }
+
+  return json({ error: 'Unknown emulator control route' }, 404);
+}
+
+async function route(request: Request, url: URL): Promise<Response> {
+  const path = url.pathname;
+
+  const failure = takeFailure(request.method, path);
+  if (failure) {
+    return failure;
+  }
+
+  if (request.method === 'GET' && path === '/authorize') {
+    return handleAuthorize(url);
+  }
+  if (request.method === 'POST' && path === '/api/token') {
+    return handleToken(request);
+  }
+  if (path.startsWith('/v1/')) {
+    return handleApi(request, path);
+  }
+
+  return new Response('Not found', { status: 404 });
+}
+
+export default {
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname.startsWith('/_emulator/')) {
+      return handleControl(request, url.pathname);
+    }
+
+    const response = await route(request, url);
+    state.requests = [
+      ...state.requests,
+      { method: request.method, path: url.pathname, status: response.status },
+    ].slice(-MAX_LOGGED_REQUESTS);
+    return response;
+  },
+};
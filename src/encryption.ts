@@ -0,0 +1,211 @@
+/**
+ * Encryption at rest for values stored in KV (AES-GCM via Web Crypto)
+ *
+ * Values are sealed into a versioned JSON envelope: { v, kid, iv, ct }. `kid` identifies
+ * the key that sealed it, so values written under a previous key can still be opened
+ * after rotating TOKEN_ENCRYPTION_KEY (old keys go in TOKEN_ENCRYPTION_KEYS_PREVIOUS).
+ */
+
+import { Env } from './storage';
+
+interface SealedEnvelope {
+  v: number;
+  kid: string; // Key id: first 8 hex chars of SHA-256 of the raw key
+  iv: string; // base64, 12 bytes
+  ct: string; // base64 ciphertext including the GCM tag
+}
+
+interface EncryptionKey {
+  kid: string;
+  key: CryptoKey;
+}
+
+const ENVELOPE_VERSION = 1;
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+// Imported keys are cached per isolate, keyed by the secret value
+const importedKeys = new Map<string, Promise<EncryptionKey>>();
+let warnedMissingKey = false;
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Web Crypto algorithm parameters take an ArrayBuffer rather than a view
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+async function importEncryptionKey(secret: string): Promise<EncryptionKey> {
+  const raw = base64ToBytes(secret.trim());
+  if (raw.length !== KEY_LENGTH) {
+    throw new Error('Token encryption keys must be 32 bytes, base64 encoded');
+  }
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', raw));
+  const kid = Array.from(digest.slice(0, 4))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+  const key = await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+  return { kid, key };
+}
+
+/**
+ * Check that a secret is a usable encryption key: 32 bytes, base64 encoded
+ */
+export function isValidEncryptionKey(secret: string): boolean {
+  try {
+    return base64ToBytes(secret.trim()).length === KEY_LENGTH;
+  } catch {
+    return false;
+  }
+}
+
+function getEncryptionKey(secret: string): Promise<EncryptionKey> {
+  let imported = importedKeys.get(secret);
+  if (!imported) {
+    imported = importEncryptionKey(secret);
+    importedKeys.set(secret, imported);
+    // Don't cache failures, so a fixed secret is picked up without a redeploy
+    imported.catch(() => importedKeys.delete(secret));
+  }
+  return imported;
+}
+
+/**
+ * Load the current key (null when encryption is not configured) and all keys that can
+ * still open existing values
+ */
+async function loadKeys(
+  env: Env
+): Promise<{ current: EncryptionKey | null; byKid: Map<string, EncryptionKey> }> {
+  const byKid = new Map<string, EncryptionKey>();
+
+  const previousSecrets = (env.TOKEN_ENCRYPTION_KEYS_PREVIOUS ?? '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter((secret) => secret !== '');
+  for (const secret of previousSecrets) {
+    const key = await getEncryptionKey(secret);
+    byKid.set(key.kid, key);
+  }
+
+  if (!env.TOKEN_ENCRYPTION_KEY) {
+    return { current: null, byKid };
+  }
+
+  const current = await getEncryptionKey(env.TOKEN_ENCRYPTION_KEY);
+  byKid.set(current.kid, current);
+  return { current, byKid };
+}
+
+function isSealedEnvelope(value: unknown): value is SealedEnvelope {
+  const envelope = value as SealedEnvelope;
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof envelope.v === 'number' &&
+    typeof envelope.kid === 'string' &&
+    typeof envelope.iv === 'string' &&
+    typeof envelope.ct === 'string'
+  );
+}
+
+/**
+ * Seal a value for storage under the current key.
+ * `context` (e.g. the KV key) is bound as additional authenticated data, so a sealed
+ * value copied to another KV key will not open.
+ * Without TOKEN_ENCRYPTION_KEY the value is stored as-is.
+ */
+export async function seal(plaintext: string, context: string, env: Env): Promise<string> {
+  const { current } = await loadKeys(env);
+  if (!current) {
+    if (!warnedMissingKey) {
+      console.warn('TOKEN_ENCRYPTION_KEY is not set; storing tokens unencrypted.');
+      warnedMissingKey = true;
+    }
+    return plaintext;
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: toArrayBuffer(iv),
+      additionalData: toArrayBuffer(new TextEncoder().encode(context)),
+    },
+    current.key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  const envelope: SealedEnvelope = {
+    v: ENVELOPE_VERSION,
+    kid: current.kid,
+    iv: bytesToBase64(iv),
+    ct: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Open a stored value sealed by `seal`, or pass through a legacy plaintext value.
+ * `needsReseal` is true when the value should be written again under the current key:
+ * it was plaintext, or it was sealed with a previous key.
+ */
+export async function open(
+  stored: string,
+  context: string,
+  env: Env
+): Promise<{ plaintext: string; needsReseal: boolean }> {
+  const { current, byKid } = await loadKeys(env);
+
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(stored);
+  } catch {
+    // Not JSON, so not an envelope; treat as legacy plaintext
+  }
+
+  if (!isSealedEnvelope(parsed)) {
+    return { plaintext: stored, needsReseal: current !== null };
+  }
+
+  if (parsed.v !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported encryption envelope version ${parsed.v}`);
+  }
+
+  const key = byKid.get(parsed.kid);
+  if (!key) {
+    throw new Error(`No encryption key configured for key id ${parsed.kid}`);
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: toArrayBuffer(base64ToBytes(parsed.iv)),
+      additionalData: toArrayBuffer(new TextEncoder().encode(context)),
+    },
+    key.key,
+    base64ToBytes(parsed.ct)
+  );
+
+  return {
+    plaintext: new TextDecoder().decode(plaintext),
+    needsReseal: current !== null && key.kid !== current.kid,
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Fallback chains for POST /api/transfer: an ordered list of candidate devices, e.g.
+ * "the kitchen Echo, else the living room speaker, else this phone"
+ *
+ * Candidates are matched against one device list. The worker transfers to the first
+ * one that is present and accepts the transfer, and reports why the others were skipped.
+ */
+
+import { SpotifyDevice } from './spotify';
+import { Target, TargetRules, matchesTarget, validateTargetRules } from './targets';
+
+export type FallbackCandidate =
+  | { deviceId: string }
+  | { name: string } // Exact device name, case-insensitive
+  | { target: string } // Named transfer target
+  | { rules: TargetRules }; // Inline match rules, as for transfer targets
+
+export interface CandidateOutcome {
+  candidate: FallbackCandidate;
+  status: 'chosen' | 'skipped' | 'failed' | 'not_tried'; // failed: ended the whole chain
+  device: { id: string; name: string } | null; // The device the candidate matched
+  reason: string | null; // Why the candidate was skipped or failed
+}
+
+export const MAX_FALLBACK_CANDIDATES = 10;
+
+const CANDIDATE_KEYS = ['deviceId', 'name', 'target', 'rules'] as const;
+
+/**
+ * Validate the devices list of a transfer request
+ * Returns the candidates in order, or a human-readable problem naming the bad entry
+ */
+export function parseFallbackChain(
+  value: Record<string, unknown>[]
+): FallbackCandidate[] | { error: string } {
+  const candidates: FallbackCandidate[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    const entry = value[i];
+    const keys = CANDIDATE_KEYS.filter((key) => entry[key] !== undefined);
+    if (keys.length !== 1) {
+      return { error: `devices[${i}] must have exactly one of ${CANDIDATE_KEYS.join(', ')}` };
+    }
+
+    const key = keys[0];
+    if (key === 'rules') {
+      const rulesError = validateTargetRules(entry.rules);
+      if (rulesError) {
+        return { error: `devices[${i}].${rulesError}` };
+      }
+      candidates.push({ rules: entry.rules as TargetRules });
+      continue;
+    }
+
+    const text = entry[key];
+    if (typeof text !== 'string' || text === '') {
+      return { error: `devices[${i}].${key} must be a non-empty string` };
+    }
+    candidates.push({ [key]: text } as FallbackCandidate);
+  }
+
+  return candidates;
+}
+
+// Candidates must match exactly one device; `what` completes "No available device ..."
+function single(
+  matches: SpotifyDevice[],
+  what: string
+): { device: SpotifyDevice } | { reason: string } {
+  if (matches.length === 0) {
+    return { reason: `No available device ${what}` };
+  }
+  if (matches.length > 1) {
+    const names = matches.map((device) => device.name).join(', ');
+    return { reason: `${matches.length} devices ${what} (${names})` };
+  }
+  return { device: matches[0] };
+}
+
+/**
+ * Find the single device a candidate refers to in the current device list
+ * Devices that do not accept Web API commands are skipped without trying them.
+ */
+export function matchCandidate(
+  candidate: FallbackCandidate,
+  devices: SpotifyDevice[],
+  targets: Target[]
+): { device: SpotifyDevice } | { reason: string } {
+  let result: { device: SpotifyDevice } | { reason: string };
+
+  if ('deviceId' in candidate) {
+    const device = devices.find((d) => d.id === candidate.deviceId);
+    result = device ? { device } : { reason: 'Not in the device list' };
+  } else if ('name' in candidate) {
+    const name = candidate.name.toLowerCase();
+    result = single(
+      devices.filter((device) => device.name.toLowerCase() === name),
+      `named "${candidate.name}"`
+    );
+  } else if ('target' in candidate) {
+    const target = targets.find((t) => t.name === candidate.target);
+    if (!target) {
+      return { reason: 'No transfer target with that name' };
+    }
+    result = single(
+      devices.filter((device) => matchesTarget(device, target.rules)),
+      'matching the target'
+    );
+  } else {
+    result = single(
+      devices.filter((device) => matchesTarget(device, candidate.rules)),
+      'matching the rules'
+    );
+  }
+
+  if ('device' in result && result.device.is_restricted) {
+    return { reason: `${result.device.name} does not accept remote control` };
+  }
+  return result;
+}
@@ -0,0 +1,262 @@
+/**
+ * Deep health check for /health?deep=1
+ *
+ * Runs a set of independent checks (configuration, KV, the account's tokens, a token
+ * refresh when one is due and a Spotify API call), each reporting its own status and
+ * latency, and rolls them up into an overall status:
+ *   ok:       every check passed
+ *   degraded: the worker runs, but something needs attention (e.g. a dead refresh token)
+ *   down:     the worker cannot serve requests at all (missing config or KV)
+ */
+
+import { Env } from './storage';
+import { isValidEncryptionKey } from './encryption';
+import { isValidRateLimit } from './ratelimit';
+import {
+  getFreshTokens,
+  getStoredTokens,
+  isExpiring,
+  spotifyFetch,
+  usesPkce,
+} from './spotify';
+import { defaultWebhookUrls, isValidWebhookUrl } from './webhooks';
+
+export type HealthCheckStatus = 'ok' | 'warn' | 'fail' | 'skipped';
+
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+export interface HealthCheck {
+  name: string;
+  status: HealthCheckStatus;
+  latency_ms: number;
+  message: string;
+  problems?: string[]; // Individual findings, for checks that look at several things
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  accountId: string | null; // null when no account is connected yet
+  checks: HealthCheck[];
+}
+
+// A failure of one of these means the worker cannot serve any request
+const CRITICAL_CHECKS = ['config', 'kv'];
+const KV_PROBE_KEY = 'health_probe';
+const KV_PROBE_TTL_SECONDS = 60; // KV's minimum expiration TTL
+
+type CheckResult = Omit<HealthCheck, 'name' | 'latency_ms'>;
+
+/**
+ * Run one check, timing it and turning a thrown error into a failed check
+ */
+async function timed(name: string, run: () => Promise<CheckResult>): Promise<HealthCheck> {
+  const startedAt = Date.now();
+  try {
+    const { status, ...result } = await run();
+    return { name, status, latency_ms: Date.now() - startedAt, ...result };
+  } catch (error) {
+    console.error(`Health check ${name} failed:`, error);
+    return {
+      name,
+      status: 'fail',
+      latency_ms: Date.now() - startedAt,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that every required Env field is set and every optional one is well-formed
+ */
+async function checkConfig(env: Env): Promise<CheckResult> {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+
+  for (const name of ['SPOTIFY_CLIENT_ID', 'AUTOMATION_KEY'] as const) {
+    if (!env[name]) {
+      problems.push(`${name} is not set`);
+    }
+  }
+  for (const name of ['SPOTIFY_REDIRECT_URI', 'BASE_URL'] as const) {
+    if (!env[name]) {
+      problems.push(`${name} is not set`);
+    } else if (!isValidUrl(env[name])) {
+      problems.push(`${name} is not a valid http(s) URL`);
+    }
+  }
+  for (const name of ['SPOTIFY_API_BASE', 'SPOTIFY_TOKEN_URL', 'SPOTIFY_AUTH_URL'] as const) {
+    const value = env[name];
+    if (value && !isValidUrl(value)) {
+      problems.push(`${name} is not a valid http(s) URL`);
+    }
+  }
+
+  if (!env.TOKEN_ENCRYPTION_KEY) {
+    warnings.push('TOKEN_ENCRYPTION_KEY is not set; tokens are stored unencrypted');
+  } else if (!isValidEncryptionKey(env.TOKEN_ENCRYPTION_KEY)) {
+    problems.push('TOKEN_ENCRYPTION_KEY must be 32 bytes, base64 encoded');
+  }
+  const previousKeys = (env.TOKEN_ENCRYPTION_KEYS_PREVIOUS ?? '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter((secret) => secret !== '');
+  if (previousKeys.some((secret) => !isValidEncryptionKey(secret))) {
+    problems.push('TOKEN_ENCRYPTION_KEYS_PREVIOUS must hold 32-byte base64 keys');
+  }
+
+  const webhookUrls = defaultWebhookUrls(env);
+  if (webhookUrls.some((url) => !isValidWebhookUrl(url))) {
+    problems.push('WEBHOOK_URLS must be comma-separated https URLs (http only for localhost)');
+  }
+  if (webhookUrls.length > 0 && !env.WEBHOOK_SECRET) {
+    problems.push('WEBHOOK_URLS is set but WEBHOOK_SECRET is not; no webhooks can be sent');
+  }
+
+  const rateLimits = [
+    'RATE_LIMIT_PER_IP',
+    'RATE_LIMIT_PER_KEY',
+    'LOCKOUT_AFTER_INVALID_KEYS',
+  ] as const;
+  for (const name of rateLimits) {
+    if (!isValidRateLimit(env[name])) {
+      warnings.push(`${name} is not "<requests>/<seconds>" or "off"; the default is used`);
+    }
+  }
+  if (!env.RATE_LIMITER) {
+    warnings.push('RATE_LIMITER is not bound; rate limits are not enforced');
+  }
+  if (env.LOCKOUT_SECONDS !== undefined && !(Number(env.LOCKOUT_SECONDS) > 0)) {
+    warnings.push('LOCKOUT_SECONDS is not a positive number; the default is used');
+  }
+
+  const mode = usesPkce(env) ? 'Authorization Code + PKCE' : 'Authorization Code';
+  if (problems.length > 0) {
+    return {
+      status: 'fail',
+      message: `${problems.length} configuration problem(s)`,
+      problems: [...problems, ...warnings],
+    };
+  }
+  if (warnings.length > 0) {
+    return { status: 'warn', message: `Configured for ${mode}, with warnings`, problems: warnings };
+  }
+  return { status: 'ok', message: `Configured for ${mode}` };
+}
+
+/**
+ * Write, read back and delete a probe value in KV
+ */
+async function checkKv(env: Env): Promise<CheckResult> {
+  if (!env.TOKENS_KV) {
+    return { status: 'fail', message: 'TOKENS_KV is not bound' };
+  }
+
+  const probe = crypto.randomUUID();
+  await env.TOKENS_KV.put(KV_PROBE_KEY, probe, { expirationTtl: KV_PROBE_TTL_SECONDS });
+  const readBack = await env.TOKENS_KV.get(KV_PROBE_KEY);
+  await env.TOKENS_KV.delete(KV_PROBE_KEY);
+
+  // Only require that a value came back: another location may have written its own probe
+  if (readBack === null) {
+    return { status: 'fail', message: 'Probe value written to KV could not be read back' };
+  }
+  return { status: 'ok', message: 'KV read and write succeeded' };
+}
+
+async function checkTokens(env: Env, accountId: string | null): Promise<CheckResult> {
+  if (!accountId) {
+    return { status: 'fail', message: 'No account connected. Visit /login to connect.' };
+  }
+
+  const tokens = await getStoredTokens(env, accountId);
+  if (!tokens) {
+    return { status: 'fail', message: 'No tokens stored. Visit /login to connect.' };
+  }
+
+  const expiresIn = tokens.expires_at - Math.floor(Date.now() / 1000);
+  return {
+    status: 'ok',
+    message:
+      expiresIn > 0
+        ? `Access token expires in ${expiresIn} seconds`
+        : `Access token expired ${-expiresIn} seconds ago; it is refreshed on next use`,
+  };
+}
+
+/**
+ * Refresh only when the access token is about to expire, as a request would: forcing a
+ * refresh on every probe would rotate tokens for nothing and count against Spotify's limits
+ */
+async function checkRefresh(env: Env, accountId: string): Promise<CheckResult> {
+  const stored = await getStoredTokens(env, accountId);
+  if (stored && !isExpiring(stored)) {
+    return { status: 'ok', message: 'Access token is still valid; no refresh needed' };
+  }
+
+  const tokens = await getFreshTokens(env, accountId);
+  if (!tokens) {
+    return { status: 'fail', message: 'No tokens stored. Visit /login to connect.' };
+  }
+  return { status: 'ok', message: 'Token refresh succeeded' };
+}
+
+async function checkSpotify(env: Env, accountId: string): Promise<CheckResult> {
+  const response = await spotifyFetch('/me', { method: 'GET' }, env, accountId);
+  if (!response.ok) {
+    return { status: 'fail', message: `Spotify API returned ${response.status}` };
+  }
+  return { status: 'ok', message: 'Spotify API reachable' };
+}
+
+function skipped(name: string, message: string): HealthCheck {
+  return { name, status: 'skipped', latency_ms: 0, message };
+}
+
+/**
+ * Run every check for an account and roll them up into an overall status
+ */
+export async function runHealthChecks(
+  env: Env,
+  accountId: string | null
+): Promise<HealthReport> {
+  const checks = [await timed('config', () => checkConfig(env))];
+  const kv = await timed('kv', () => checkKv(env));
+  checks.push(kv);
+
+  if (kv.status === 'fail') {
+    checks.push(
+      skipped('tokens', 'KV is unavailable'),
+      skipped('refresh', 'KV is unavailable'),
+      skipped('spotify', 'KV is unavailable')
+    );
+  } else {
+    const tokens = await timed('tokens', () => checkTokens(env, accountId));
+    checks.push(tokens);
+
+    if (tokens.status === 'fail' || !accountId) {
+      checks.push(skipped('refresh', 'No tokens stored'), skipped('spotify', 'No tokens stored'));
+    } else {
+      // Refresh first when due, so the API call below uses a known-good access token
+      checks.push(await timed('refresh', () => checkRefresh(env, accountId)));
+      checks.push(await timed('spotify', () => checkSpotify(env, accountId)));
+    }
+  }
+
+  let status: HealthStatus = 'ok';
+  if (checks.some((check) => check.status === 'fail' && CRITICAL_CHECKS.includes(check.name))) {
+    status = 'down';
+  } else if (checks.some((check) => check.status === 'fail' || check.status === 'warn')) {
+    status = 'degraded';
+  }
+
+  return { status, accountId, checks };
+}
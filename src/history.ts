@@ -0,0 +1,176 @@
+/**
+ * Transfer history: the most recent transfer outcomes per account, newest first
+ *
+ * Every transfer is recorded once it finishes, including ones that completed in the
+ * background. Each entry is its own KV key, written once and expiring after
+ * TRANSFER_HISTORY_TTL_SECONDS, so concurrent transfers never overwrite each other's
+ * entries. Keys sort newest first, so a prefix listing returns the most recent entries.
+ */
+
+import { Env } from './storage';
+
+export interface HistoryDevice {
+  id: string;
+  name: string | null;
+}
+
+export interface TransferRecord {
+  at: number; // Unix timestamp in seconds
+  status: 'SUCCEEDED' | 'FAILED';
+  caller: string | null; // Label of the API key, "status page" or "schedule: <name>"
+  sourceDevice: HistoryDevice | null; // Device that was active before the transfer
+  deviceId: string | null;
+  deviceName: string | null;
+  target: string | null; // Transfer target name, when the transfer used one
+  attempts: number; // Transfer requests sent to Spotify, including retries
+  latency_ms: number | null; // From the transfer request to its final outcome
+  code: string | null; // API error code when the transfer failed
+  message: string;
+  jobId: string | null; // Set when the transfer finished in the background
+}
+
+export interface TransferHistoryFilter {
+  device: string | null; // Source or destination device id or name, or target name
+  status: TransferRecord['status'] | null;
+  since: number | null; // Unix timestamp in seconds, inclusive
+  until: number | null; // Unix timestamp in seconds, inclusive
+  limit: number;
+}
+
+const TRANSFER_HISTORY_KEY_PREFIX = 'transfer_history:';
+const MAX_TRANSFER_HISTORY = 200; // Entries returned by readTransferHistory
+const TRANSFER_HISTORY_TTL_SECONDS = 30 * 24 * 60 * 60;
+const MAX_KV_METADATA_BYTES = 1024;
+// Entry keys count down from here, so that newer entries sort first
+const LATEST_KEY_TIME_MS = 9_999_999_999_999;
+
+function historyPrefix(accountId: string): string {
+  return `${TRANSFER_HISTORY_KEY_PREFIX}${accountId}:`;
+}
+
+function historyEntryKey(accountId: string, atMs: number): string {
+  const descending = String(LATEST_KEY_TIME_MS - atMs).padStart(13, '0');
+  return `${historyPrefix(accountId)}${descending}:${crypto.randomUUID()}`;
+}
+
+// Entries written before caller, source and timing were recorded lack those fields
+function normalizeRecord(record: Partial<TransferRecord>): TransferRecord {
+  return {
+    ...record,
+    caller: record.caller ?? null,
+    sourceDevice: record.sourceDevice ?? null,
+    attempts: record.attempts ?? 0,
+    latency_ms: record.latency_ms ?? null,
+  } as TransferRecord;
+}
+
+async function writeHistoryEntry(
+  env: Env,
+  accountId: string,
+  entry: TransferRecord,
+  atMs: number
+): Promise<void> {
+  const value = JSON.stringify(entry);
+  const fitsMetadata = new TextEncoder().encode(value).length <= MAX_KV_METADATA_BYTES;
+  await env.TOKENS_KV.put(historyEntryKey(accountId, atMs), value, {
+    expirationTtl: TRANSFER_HISTORY_TTL_SECONDS,
+    // Entries that fit ride along in the key listing, saving a read each
+    ...(fitsMetadata && { metadata: entry }),
+  });
+}
+
+/**
+ * Move the single-array history written by earlier versions to one key per entry
+ */
+async function migrateLegacyHistory(env: Env, accountId: string): Promise<void> {
+  const legacyKey = `${TRANSFER_HISTORY_KEY_PREFIX}${accountId}`;
+  const data = await env.TOKENS_KV.get(legacyKey);
+  if (!data) {
+    return;
+  }
+
+  const records = (JSON.parse(data) as Partial<TransferRecord>[]).map(normalizeRecord);
+  const oldestAllowed = Math.floor(Date.now() / 1000) - TRANSFER_HISTORY_TTL_SECONDS;
+  await Promise.all(
+    records
+      .filter((record) => record.at > oldestAllowed)
+      // The array is newest first; subtracting the index keeps that order within a second
+      .map((record, index) => writeHistoryEntry(env, accountId, record, record.at * 1000 - index))
+  );
+  await env.TOKENS_KV.delete(legacyKey);
+}
+
+/**
+ * Read an account's recent transfers, newest first
+ * KV listings are eventually consistent, so an entry can take a moment to appear.
+ */
+export async function readTransferHistory(env: Env, accountId: string): Promise<TransferRecord[]> {
+  try {
+    await migrateLegacyHistory(env, accountId);
+
+    const page = await env.TOKENS_KV.list<TransferRecord>({
+      prefix: historyPrefix(accountId),
+      limit: MAX_TRANSFER_HISTORY,
+    });
+    const records = await Promise.all(
+      page.keys.map(async (key) => {
+        if (key.metadata) {
+          return key.metadata;
+        }
+        const data = await env.TOKENS_KV.get(key.name);
+        return data ? (JSON.parse(data) as TransferRecord) : null; // null: expired meanwhile
+      })
+    );
+    return records.filter((record) => record !== null).map(normalizeRecord);
+  } catch (error) {
+    console.error('Error reading transfer history from KV:', error);
+    return [];
+  }
+}
+
+/**
+ * Add a finished transfer to the account's history
+ */
+export async function recordTransfer(
+  env: Env,
+  accountId: string,
+  record: Omit<TransferRecord, 'at'>
+): Promise<void> {
+  try {
+    const now = Date.now();
+    const entry: TransferRecord = { at: Math.floor(now / 1000), ...record };
+    await writeHistoryEntry(env, accountId, entry, now);
+  } catch (error) {
+    // Losing a history entry must never break the transfer itself
+    console.error('Error writing transfer history to KV:', error);
+  }
+}
+
+function matchesDevice(record: TransferRecord, device: string): boolean {
+  const needle = device.toLowerCase();
+  return [
+    record.deviceId,
+    record.deviceName,
+    record.target,
+    record.sourceDevice?.id,
+    record.sourceDevice?.name,
+  ].some((value) => typeof value === 'string' && value.toLowerCase() === needle);
+}
+
+/**
+ * Select the history entries matching a filter, newest first
+ */
+export function filterTransferHistory(
+  records: TransferRecord[],
+  filter: TransferHistoryFilter
+): TransferRecord[] {
+  return records
+    .filter(
+      (record) =>
+        (filter.device === null || matchesDevice(record, filter.device)) &&
+        (filter.status === null || record.status === filter.status) &&
+        (filter.since === null || record.at >= filter.since) &&
+        (filter.until === null || record.at <= filter.until)
+    )
+    .slice(0, filter.limit);
+}
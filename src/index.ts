@@ -3,38 +3,181 @@
  * Handles routing and all endpoints
  */
 
-import { Env, readTokens, writeTokens } from './storage';
+import { Env, TokenDecryptionError, deleteTokens, writeTokens } from './storage';
+import { readAccount, resolveCaller, upsertAccount } from './accounts';
+import {
+  API_SCOPES,
+  ApiScope,
+  describeApiKey,
+  hasActiveApiKey,
+  hasScope,
+  issueApiKey,
+  listApiKeys,
+  parseApiKeyInput,
+  revokeApiKey,
+} from './apikeys';
 import {
   checkAutomationKey,
   generateState,
+  generateCodeVerifier,
+  createCodeChallenge,
   getStateCookie,
+  getCodeVerifierCookie,
   createStateCookie,
   clearStateCookie,
   validateState,
+  escapeHtml,
+  getSessionCookie,
+  createSessionCookie,
 } from './security';
 import {
   buildAuthorizeUrl,
   exchangeCodeForTokens,
+  fetchCurrentUser,
+  usesPkce,
   spotifyFetch,
-  isPremiumRequiredError,
-  getSpotifyErrorMessage,
+  classifySpotifyError,
+  SpotifyError,
   getAccessToken,
+  getStoredTokens,
+  withTokenCache,
+  SpotifyDevice,
+  DevicesResponse,
+  ReconnectRequiredError,
 } from './spotify';
-
-// Spotify API types
-interface SpotifyDevice {
-  id: string;
-  is_active: boolean;
-  is_private_session: boolean;
-  is_restricted: boolean;
-  name: string;
-  type: string;
-  volume_percent: number | null;
-}
-
-interface DevicesResponse {
-  devices: SpotifyDevice[];
-}
+import {
+  RESERVED_TARGET_NAMES,
+  Target,
+  TargetRules,
+  findTarget,
+  isValidTargetName,
+  listTargets,
+  readStoredTargets,
+  resolveTargetDevices,
+  shadowedTargets,
+  targetDefaultVolume,
+  validateTargetRules,
+  writeStoredTargets,
+} from './targets';
+import {
+  NOTHING_PLAYING,
+  PLAYER_COMMANDS,
+  PlaybackContent,
+  PlayerCommand,
+  SpotifyPlaybackResponse,
+  buildPlayerRequest,
+  normalizePlaybackState,
+  startPlaybackRequest,
+  validatePlaybackContent,
+} from './player';
+import {
+  Schedule,
+  ScheduleRun,
+  isScheduleDue,
+  listScheduleAccountIds,
+  parseScheduleInput,
+  readSchedules,
+  recordScheduleRuns,
+  writeSchedules,
+} from './schedules';
+import {
+  DEFAULT_VERIFY_TIMEOUT_MS,
+  MAX_VERIFY_TIMEOUT_MS,
+  TransferVerification,
+  VerifyOptions,
+  sleep,
+  verifyTransfer,
+} from './verify';
+import {
+  TRANSFER_JOB_BUDGET_SECONDS,
+  TransferJob,
+  TransferJobChanges,
+  createTransferJob,
+  readTransferJob,
+  settleTransferJob,
+  updateTransferJob,
+  writeTransferJobResult,
+} from './jobs';
+import {
+  HistoryDevice,
+  TransferHistoryFilter,
+  filterTransferHistory,
+  readTransferHistory,
+  recordTransfer,
+} from './history';
+import { HealthStatus, runHealthChecks } from './health';
+import { WEBHOOK_DELIVERY_BUDGET_MS, deliverTransferWebhooks, isValidWebhookUrl } from './webhooks';
+import { PreviousDevice, pushPreviousDevice, readPreviousDevices } from './previous';
+import {
+  StoredVolume,
+  VolumeHandoff,
+  VolumeOption,
+  applyVolume,
+  planVolume,
+  validateVolumeOption,
+} from './volume';
+import { deviceDefaultVolume, readDeviceVolumes, writeDeviceVolumes } from './devicevolumes';
+import {
+  CandidateOutcome,
+  FallbackCandidate,
+  matchCandidate,
+  parseFallbackChain,
+} from './fallback';
+import { SESSION_TTL_SECONDS, createSession, readSession } from './sessions';
+import { renderStatusPage, renderStatusSignIn } from './status';
+import {
+  RateLimitConfig,
+  checkLockout,
+  getRateLimitConfig,
+  hitRateLimit,
+  recordInvalidKey,
+} from './ratelimit';
+import {
+  JsonSchema,
+  ParameterSpec,
+  ResponseSpec,
+  Route,
+  buildOpenApiDocument,
+  matchRoute,
+  readBody,
+} from './router';
+import {
+  API_KEY_BODY,
+  API_KEY_RESPONSE,
+  API_KEYS_RESPONSE,
+  DEEP_HEALTH_RESPONSE,
+  DELETED_RESPONSE,
+  DEVICE_VOLUME_BODY,
+  DEVICE_VOLUMES_RESPONSE,
+  DEVICES_RESPONSE,
+  DISCONNECTED_RESPONSE,
+  ERROR_RESPONSE,
+  HEALTH_RESPONSE,
+  HISTORY_RESPONSE,
+  ISSUED_API_KEY_RESPONSE,
+  MESSAGE_RESPONSE,
+  PLAYBACK_RESPONSE,
+  PLAYER_COMMAND_BODY,
+  SAVED_DEVICE_VOLUME_RESPONSE,
+  SAVED_SCHEDULE_RESPONSE,
+  SAVED_TARGET_RESPONSE,
+  SCHEDULE_BODY,
+  SCHEDULE_RESPONSE,
+  SCHEDULES_RESPONSE,
+  TARGET_CREATE_BODY,
+  TARGET_REPLACE_BODY,
+  TARGET_RESPONSE,
+  TARGETS_RESPONSE,
+  TRANSFER_ACCEPTED_RESPONSE,
+  TRANSFER_BODY,
+  TRANSFER_JOB_RESPONSE,
+  TRANSFER_RESPONSE,
+  TRANSFER_TARGET_BODY,
+  DeviceVolumeBody,
+  TargetBody,
+  TransferBody,
+  TransferTargetBody,
+} from './schemas';
 
 /**
  * Add CORS headers to response
@@ -42,8 +185,11 @@ interface DevicesResponse {
 function addCorsHeaders(response: Response): Response {
   const newResponse = new Response(response.body, response);
   newResponse.headers.set('Access-Control-Allow-Origin', '*');
-  newResponse.headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  newResponse.headers.set('Access-Control-Allow-Headers', 'Content-Type, X-Automation-Key');
+  newResponse.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  newResponse.headers.set(
+    'Access-Control-Allow-Headers',
+    'Content-Type, X-Automation-Key, X-Spotify-Account'
+  );
   return newResponse;
 }
 
@@ -61,6 +207,53 @@ function jsonError(code: string, message: string, status: number = 400): Respons
   });
 }
 
+/**
+ * An API error that has not been turned into a response yet, so it can also be
+ * recorded by callers that have no HTTP response to send (e.g. scheduled runs)
+ */
+interface ApiFailure {
+  code: string;
+  message: string;
+  status: number;
+  devices?: { id: string; name: string }[]; // Candidate devices for ambiguous matches
+  loginUrl?: string; // Where to reconnect, for RECONNECT_REQUIRED
+  retryAfter?: number; // Seconds, sent as Retry-After
+  candidates?: CandidateOutcome[]; // What happened to each device of a fallback chain
+}
+
+/**
+ * Create JSON error response from an API failure
+ */
+function failureResponse(failure: ApiFailure): Response {
+  const response = buildFailureResponse(failure);
+  if (failure.retryAfter !== undefined) {
+    response.headers.set('Retry-After', String(failure.retryAfter));
+  }
+  return response;
+}
+
+function buildFailureResponse(failure: ApiFailure): Response {
+  if (!failure.devices && !failure.loginUrl && !failure.candidates) {
+    return addCorsHeaders(jsonError(failure.code, failure.message, failure.status));
+  }
+
+  return addCorsHeaders(
+    new Response(
+      JSON.stringify({
+        ok: false,
+        error: { code: failure.code, message: failure.message },
+        ...(failure.devices && { devices: failure.devices }),
+        ...(failure.loginUrl && { loginUrl: failure.loginUrl }),
+        ...(failure.candidates && { candidates: failure.candidates }),
+      }),
+      {
+        status: failure.status,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  );
+}
+
 /**
  * Create JSON success response
  */
@@ -76,10 +269,6 @@ const TRANSFER_RETRY_ATTEMPTS = 3;
 const TRANSFER_RETRY_BASE_DELAY_MS = 350;
 const TRANSFER_RETRY_MAX_DELAY_MS = 2000;
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 function shouldRetryTransfer(response: Response): boolean {
   if (response.status === 404 || response.status === 429) {
     return true;
@@ -109,46 +298,75 @@ function getRetryDelayMs(attempt: number, response?: Response): number {
   return Math.min(delay, TRANSFER_RETRY_MAX_DELAY_MS);
 }
 
+/**
+ * Thrown by retryTransfer when its deadline leaves no time for another attempt
+ */
+class TransferDeadlineError extends Error {
+  constructor() {
+    super('Transfer deadline passed');
+    this.name = 'TransferDeadlineError';
+  }
+}
+
 async function retryTransfer(
   makeRequest: () => Promise<Response>,
-  options?: { maxAttempts?: number; initialAttempt?: number }
+  options?: {
+    maxAttempts?: number;
+    initialAttempt?: number;
+    deadline?: number; // Unix timestamp in milliseconds; no attempt starts after it
+    // Called after every attempt, with null when the attempt threw
+    onAttempt?: (attempt: number, response: Response | null) => Promise<void>;
+  }
 ): Promise<Response> {
   const maxAttempts = options?.maxAttempts ?? TRANSFER_RETRY_ATTEMPTS;
+  const deadline = options?.deadline ?? Infinity;
   let attempt = options?.initialAttempt ?? 1;
   let lastResponse: Response | null = null;
 
   for (; attempt <= maxAttempts; attempt++) {
+    if (Date.now() >= deadline) {
+      throw new TransferDeadlineError();
+    }
+
+    let delayMs: number;
     try {
       const response = await makeRequest();
       lastResponse = response;
+      await options?.onAttempt?.(attempt, response);
 
       if (response.ok || !shouldRetryTransfer(response) || attempt === maxAttempts) {
         return response;
       }
 
-      const delayMs = getRetryDelayMs(attempt, response);
+      delayMs = getRetryDelayMs(attempt, response);
       console.warn(`Transfer failed with ${response.status}. Retrying in ${delayMs}ms...`);
-      await sleep(delayMs);
     } catch (error) {
+      await options?.onAttempt?.(attempt, null);
       if (attempt === maxAttempts) {
         throw error;
       }
-      const delayMs = getRetryDelayMs(attempt);
+      delayMs = getRetryDelayMs(attempt);
       console.warn(`Transfer error. Retrying in ${delayMs}ms...`, error);
-      await sleep(delayMs);
     }
+
+    if (Date.now() + delayMs >= deadline) {
+      throw new TransferDeadlineError();
+    }
+    await sleep(delayMs);
   }
 
   return lastResponse ?? new Response('Transfer retry attempts exhausted', { status: 500 });
 }
 
-function inProgressResponse(message: string): Response {
+function inProgressResponse(message: string, job: TransferJob): Response {
   return addCorsHeaders(
     jsonSuccess(
       {
         success: true,
-        status: 'RETRYING',
+        status: job.status,
         message,
+        jobId: job.id,
+        statusUrl: `/api/transfers/${job.id}`,
       },
       202
     )
@@ -169,19 +387,72 @@ function handleHealth(): Response {
   return jsonSuccess({ ok: true });
 }
 
+// Overall deep health status -> HTTP status. Degraded still serves requests, so it stays
+// 200 and monitors read the body's status; down is 503 so they can alert on the code alone.
+const HEALTH_STATUS_CODES: Record<HealthStatus, number> = { ok: 200, degraded: 200, down: 503 };
+
+/**
+ * GET /health?deep=1
+ * Checks configuration, KV, the account's tokens, a token refresh and Spotify reachability.
+ * Requires an admin key. Responds 200 when ok or degraded (see `status`) and 503 when down.
+ */
+async function handleDeepHealth(request: Request, env: Env): Promise<Response> {
+  const rateLimits = getRateLimitConfig(env);
+  const limited = await checkClientLimits(request, env, rateLimits);
+  if (limited) {
+    return limited;
+  }
+
+  let accountId: string | null = null;
+  try {
+    const caller = await resolveCaller(request, env);
+    if (caller.ok) {
+      const denied =
+        requireScope(caller.scopes, 'admin') ??
+        (await checkKeyLimit(env, caller.keyId, rateLimits));
+      if (denied) {
+        return denied;
+      }
+      accountId = caller.accountId;
+    } else if (caller.code === 'INVALID_AUTOMATION_KEY') {
+      await recordInvalidKey(env, clientIp(request), rateLimits);
+      return addCorsHeaders(
+        jsonError('INVALID_AUTOMATION_KEY', 'Invalid or missing X-Automation-Key header', 401)
+      );
+    }
+    // NO_ACCOUNT_SELECTED: the admin key is valid but nothing is connected yet
+  } catch (error) {
+    // Resolving the caller reads KV. The admin key can still be checked without it, so
+    // it gets a report showing what is broken.
+    console.error('Error resolving caller for deep health check:', error);
+    if (!checkAutomationKey(request, env)) {
+      return addCorsHeaders(
+        jsonError('INTERNAL_ERROR', 'Could not check the key; KV may be unavailable', 503)
+      );
+    }
+    accountId = request.headers.get('X-Spotify-Account');
+  }
+
+  const report = await runHealthChecks(env, accountId);
+  return jsonSuccess(report, HEALTH_STATUS_CODES[report.status]);
+}
+
 /**
  * GET /login
  * Redirects to Spotify authorization URL
+ * In PKCE mode a code verifier is generated alongside the state and bound to its cookie
  */
-function handleLogin(request: Request, env: Env): Response {
+async function handleLogin(request: Request, env: Env): Promise<Response> {
   const state = generateState();
-  const authUrl = buildAuthorizeUrl(state, env);
+  const codeVerifier = usesPkce(env) ? generateCodeVerifier() : null;
+  const codeChallenge = codeVerifier ? await createCodeChallenge(codeVerifier) : undefined;
+  const authUrl = buildAuthorizeUrl(state, env, codeChallenge);
 
   return new Response(null, {
     status: 302,
     headers: {
       Location: authUrl,
-      'Set-Cookie': createStateCookie(state),
+      'Set-Cookie': createStateCookie(state, codeVerifier),
     },
   });
 }
@@ -259,8 +530,27 @@ async function handleCallback(request: Request, env: Env): Promise<Response> {
 
   // Exchange code for tokens
   try {
-    const tokens = await exchangeCodeForTokens(code, env.SPOTIFY_REDIRECT_URI, env);
-    await writeTokens(tokens, env);
+    const tokens = await exchangeCodeForTokens(
+      code,
+      env.SPOTIFY_REDIRECT_URI,
+      env,
+      getCodeVerifierCookie(request)
+    );
+    const profile = await fetchCurrentUser(tokens.access_token, env);
+    await writeTokens(tokens, env, profile.id);
+
+    // Issue an owner key (every scope) when the account has no usable key yet
+    await upsertAccount(env, profile.id, profile.display_name);
+    const sessionId = await createSession(env, profile.id);
+    const automationKey = (await hasActiveApiKey(env, profile.id))
+      ? null
+      : (
+          await issueApiKey(env, profile.id, {
+            label: 'Owner key',
+            scopes: [...API_SCOPES],
+            expires_at: null,
+          })
+        ).key;
 
     const response = new Response(
       `
@@ -300,15 +590,31 @@ async function handleCallback(request: Request, env: Env): Promise<Response> {
               border-radius: 4px;
               margin-bottom: 20px;
             }
+            code {
+              display: block;
+              word-break: break-all;
+              background-color: #f5f5f5;
+              padding: 12px;
+              border-radius: 4px;
+              margin-bottom: 20px;
+            }
           </style>
         </head>
         <body>
           <div class="container">
             <h1>✓ Successfully Connected!</h1>
             <div class="success">
-              Your Spotify account has been connected successfully.
+              Your Spotify account (${escapeHtml(profile.display_name || profile.id)}) has been connected successfully.
             </div>
+            ${
+              automationKey
+                ? `<p>Your owner API key (send it as the <b>X-Automation-Key</b> header). It is only shown once:</p>
+            <code>${automationKey}</code>
+            <p>Use it to issue narrower keys for each Shortcut or script via <b>POST /api/keys</b>.</p>`
+                : '<p>Your existing API keys keep working.</p>'
+            }
             <p>You can now use the API endpoints to control playback.</p>
+            <p><a href="/status">View status and devices</a></p>
             <p><small>You can close this window.</small></p>
           </div>
         </body>
@@ -322,6 +628,7 @@ async function handleCallback(request: Request, env: Env): Promise<Response> {
         },
       }
     );
+    response.headers.append('Set-Cookie', createSessionCookie(sessionId, SESSION_TTL_SECONDS));
 
     return response;
   } catch (error) {
@@ -345,354 +652,3112 @@ async function handleCallback(request: Request, env: Env): Promise<Response> {
   }
 }
 
+/**
+ * Fetch the account's Spotify Connect devices
+ */
+async function fetchDevices(
+  env: Env,
+  accountId: string
+): Promise<{ devices: SpotifyDevice[] } | { failure: ApiFailure }> {
+  const response = await spotifyFetch('/me/player/devices', { method: 'GET' }, env, accountId);
+
+  if (!response.ok) {
+    return { failure: await classifySpotifyFailure(response) };
+  }
+
+  const data = await response.json<DevicesResponse>();
+  return { devices: data.devices || [] };
+}
+
 /**
  * GET /api/devices
  * Returns list of available Spotify Connect devices
  */
-async function handleGetDevices(env: Env): Promise<Response> {
+async function handleGetDevices(env: Env, accountId: string): Promise<Response> {
   try {
-    const response = await spotifyFetch('/me/player/devices', { method: 'GET' }, env);
-
-    if (!response.ok) {
-      if (isPremiumRequiredError(response)) {
-        return addCorsHeaders(
-          jsonError('PREMIUM_REQUIRED', 'Spotify Premium is required for playback control.', 403)
-        );
-      }
-
-      const errorMessage = await getSpotifyErrorMessage(response);
-      return addCorsHeaders(jsonError('SPOTIFY_ERROR', errorMessage, response.status));
+    const result = await fetchDevices(env, accountId);
+    if ('failure' in result) {
+      return failureResponse(result.failure);
     }
 
-    const data: DevicesResponse = await response.json();
-    return addCorsHeaders(jsonSuccess({ devices: data.devices || [] }));
+    return addCorsHeaders(jsonSuccess({ devices: result.devices }));
   } catch (error) {
+    if (error instanceof ReconnectRequiredError) {
+      return failureResponse(accessRevoked(env));
+    }
     console.error('Error fetching devices:', error);
     return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to fetch devices', 500));
   }
 }
 
 /**
- * POST /api/transfer
- * Transfers playback to a specified device
- * Body: { deviceId: string, play?: boolean }
+ * GET /api/devices/volumes
+ * Returns the default volumes stored per device id
  */
-async function handleTransfer(
-  request: Request,
+async function handleListDeviceVolumes(env: Env, accountId: string): Promise<Response> {
+  try {
+    const volumes = await readDeviceVolumes(env, accountId);
+    return addCorsHeaders(jsonSuccess({ volumes }));
+  } catch (error) {
+    console.error('Error listing device volumes:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to list device volumes', 500));
+  }
+}
+
+/**
+ * PUT /api/devices/:id/volume
+ * Stores the volume set after transfers to the device by id or through a fallback chain
+ * Body: { volume: number }
+ */
+async function handleSetDeviceVolume(
+  body: DeviceVolumeBody,
   env: Env,
-  ctx: ExecutionContext,
-  asyncTransfer: boolean
+  accountId: string,
+  deviceId: string
 ): Promise<Response> {
   try {
-    const body = await request.json().catch(() => ({}));
-    const { deviceId, play } = body;
-
-    if (!deviceId || typeof deviceId !== 'string') {
-      return addCorsHeaders(jsonError('INVALID_REQUEST', 'deviceId is required', 400));
-    }
-
-    const makeRequest = () =>
-      spotifyFetch(
-        '/me/player',
-        {
-          method: 'PUT',
-          body: JSON.stringify({
-            device_ids: [deviceId],
-            play: play !== undefined ? play : true,
-          }),
-        },
-        env
-      );
-
-    let response: Response;
-    if (asyncTransfer) {
-      response = await makeRequest();
-      if (!response.ok && shouldRetryTransfer(response)) {
-        ctx.waitUntil(retryTransfer(makeRequest, { initialAttempt: 2 }));
-        return inProgressResponse('Transfer in progress. Retrying and will complete shortly.');
-      }
-    } else {
-      response = await retryTransfer(makeRequest);
-    }
-
-    if (!response.ok) {
-      if (isPremiumRequiredError(response)) {
-        return addCorsHeaders(
-          jsonError('PREMIUM_REQUIRED', 'Spotify Premium is required for playback control.', 403)
-        );
-      }
-
-      if (response.status === 404) {
-        return addCorsHeaders(
-          jsonError(
-            'NO_ACTIVE_DEVICE',
-            'No active device found. Please start playing something on Spotify first.',
-            404
-          )
-        );
-      }
-
-      const errorMessage = await getSpotifyErrorMessage(response);
-      return addCorsHeaders(jsonError('SPOTIFY_ERROR', errorMessage, response.status));
-    }
-
-    return addCorsHeaders(
-      jsonSuccess({ success: true, message: 'Playback transferred successfully' })
-    );
+    const volumes = await readDeviceVolumes(env, accountId);
+    volumes[deviceId] = body.volume;
+    await writeDeviceVolumes(env, accountId, volumes);
+    return addCorsHeaders(jsonSuccess({ success: true, deviceId, volume: body.volume }));
   } catch (error) {
-    console.error('Error transferring playback:', error);
-    if (error instanceof SyntaxError) {
-      return addCorsHeaders(jsonError('INVALID_REQUEST', 'Invalid request body', 400));
-    }
-    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to transfer playback', 500));
+    console.error('Error saving device volume:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to save device volume', 500));
   }
 }
 
 /**
- * POST /api/transfer/echo
- * Transfers playback to Echo Dot device (auto-resolves by name)
- * No body required
+ * DELETE /api/devices/:id/volume
  */
-async function handleTransferEcho(
+async function handleDeleteDeviceVolume(
   env: Env,
-  ctx: ExecutionContext,
-  asyncTransfer: boolean
+  accountId: string,
+  deviceId: string
 ): Promise<Response> {
   try {
-    // First, get list of devices
-    const devicesResponse = await spotifyFetch('/me/player/devices', { method: 'GET' }, env);
-
-    if (!devicesResponse.ok) {
-      if (isPremiumRequiredError(devicesResponse)) {
-        return addCorsHeaders(
-          jsonError('PREMIUM_REQUIRED', 'Spotify Premium is required for playback control.', 403)
-        );
-      }
-
-      const errorMessage = await getSpotifyErrorMessage(devicesResponse);
+    const volumes = await readDeviceVolumes(env, accountId);
+    if (typeof volumes[deviceId] !== 'number') {
       return addCorsHeaders(
-        jsonError('SPOTIFY_ERROR', errorMessage, devicesResponse.status)
+        jsonError('DEVICE_VOLUME_NOT_FOUND', `No default volume stored for ${deviceId}.`, 404)
       );
     }
 
-    const devicesData: DevicesResponse = await devicesResponse.json();
-    const devices = devicesData.devices || [];
+    delete volumes[deviceId];
+    await writeDeviceVolumes(env, accountId, volumes);
+    return addCorsHeaders(jsonSuccess({ success: true }));
+  } catch (error) {
+    console.error('Error deleting device volume:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to delete device volume', 500));
+  }
+}
 
-    // Find devices with "echo" or "dot" in the name (case-insensitive)
-    const echoDevices = devices.filter(
-      (device) =>
-        device.name.toLowerCase().includes('echo') || device.name.toLowerCase().includes('dot')
+/**
+ * Build the request that transfers playback to a device
+ * When Spotify reports no playback session to transfer (NO_ACTIVE_DEVICE) and the transfer
+ * has fallback content and may play, the content is started on the device instead, and
+ * origin.startedFresh says whether that worked. Later attempts go straight to the content.
+ */
+function transferRequest(
+  env: Env,
+  accountId: string,
+  deviceId: string,
+  play: boolean,
+  origin: TransferOrigin
+): () => Promise<Response> {
+  const transfer = () =>
+    spotifyFetch(
+      '/me/player',
+      {
+        method: 'PUT',
+        body: JSON.stringify({
+          device_ids: [deviceId],
+          play,
+        }),
+      },
+      env,
+      accountId
     );
+  // Content always starts playing, so an explicit play: false never falls back to it
+  if (!origin.fallbackContent || !play) {
+    return transfer;
+  }
 
-    if (echoDevices.length === 0) {
-      return addCorsHeaders(
-        jsonError(
-          'NO_ECHO_DEVICE',
-          'Wake your Echo, open Spotify, start playback once.',
-          404
-        )
-      );
-    }
-
-    // If multiple Echo devices, return 409 with list
-    if (echoDevices.length > 1) {
-      return addCorsHeaders(
-        new Response(
-          JSON.stringify({
-            ok: false,
-            error: {
-              code: 'MULTIPLE_ECHO_DEVICES',
-              message: 'Multiple Echo devices found. Please specify which device to use.',
-            },
-            devices: echoDevices.map((d) => ({ id: d.id, name: d.name })),
-          }),
-          {
-            status: 409,
-            headers: { 'Content-Type': 'application/json' },
-          }
-        )
-      );
-    }
-
-    // Single Echo device found
-    const targetDevice = echoDevices[0];
-
-    // Transfer playback to the Echo device
-    const makeRequest = () =>
-      spotifyFetch(
-        '/me/player',
-        {
-          method: 'PUT',
-          body: JSON.stringify({
-            device_ids: [targetDevice.id],
-            play: true,
-          }),
-        },
-        env
-      );
-
-    let transferResponse: Response;
-    if (asyncTransfer) {
-      transferResponse = await makeRequest();
-      if (!transferResponse.ok && shouldRetryTransfer(transferResponse)) {
-        ctx.waitUntil(retryTransfer(makeRequest, { initialAttempt: 2 }));
-        return inProgressResponse(
-          `Transfer to ${targetDevice.name} in progress. Retrying and will complete shortly.`
-        );
-      }
-    } else {
-      transferResponse = await retryTransfer(makeRequest);
-    }
-
-    if (!transferResponse.ok) {
-      if (isPremiumRequiredError(transferResponse)) {
-        return addCorsHeaders(
-          jsonError('PREMIUM_REQUIRED', 'Spotify Premium is required for playback control.', 403)
-        );
+  const start = startPlaybackRequest(deviceId, origin.fallbackContent);
+  let noSession = false;
+  return async () => {
+    if (!noSession) {
+      const response = await transfer();
+      if (response.status !== 404) {
+        return response;
       }
-
-      if (transferResponse.status === 404) {
-        return addCorsHeaders(
-          jsonError(
-            'NO_ACTIVE_DEVICE',
-            'No active device found. Please start playing something on Spotify first.',
-            404
-          )
-        );
+      if ((await classifySpotifyError(response.clone())).kind !== 'NO_ACTIVE_DEVICE') {
+        return response;
       }
-
-      const errorMessage = await getSpotifyErrorMessage(transferResponse);
-      return addCorsHeaders(
-        jsonError('SPOTIFY_ERROR', errorMessage, transferResponse.status)
-      );
+      noSession = true;
     }
-
-    return addCorsHeaders(
-      jsonSuccess({
-        success: true,
-        message: `Playback transferred to ${targetDevice.name}`,
-        device: {
-          id: targetDevice.id,
-          name: targetDevice.name,
-        },
-      })
-    );
-  } catch (error) {
-    console.error('Error transferring to Echo:', error);
-    return addCorsHeaders(
-      jsonError('INTERNAL_ERROR', 'Failed to transfer playback to Echo Dot', 500)
+    const response = await spotifyFetch(
+      start.path,
+      { method: start.method, body: start.body },
+      env,
+      accountId
     );
-  }
+    origin.startedFresh = response.ok;
+    return response;
+  };
 }
 
 /**
- * Check if user is authenticated (has tokens)
+ * How a transfer request should run, taken from its query string
+ * (?async=0 to retry inline, ?verify=1&verifyTimeout=<seconds> to confirm the result,
+ * ?waitForDevice=<seconds> to wait for a sleeping device to appear)
  */
-async function requireAuth(env: Env): Promise<Response | null> {
-  const tokens = await readTokens(env);
-
-  if (!tokens) {
-    return addCorsHeaders(
-      jsonError('NOT_AUTHENTICATED', 'Not connected. Visit /login to connect your Spotify account.', 401)
-    );
-  }
-
-  // Ensure we have a valid access token
-  const accessToken = await getAccessToken(env);
+interface TransferMode {
+  asyncTransfer: boolean;
+  asyncRequested: boolean; // ?async was given and not turned off, rather than defaulted
+  verify: VerifyOptions | null;
+  waitForDeviceMs: number;
+}
 
-  if (!accessToken) {
-    return addCorsHeaders(
-      jsonError(
-        'TOKEN_REFRESH_FAILED',
-        'Failed to refresh access token. Please visit /login to reconnect.',
-        401
-      )
-    );
-  }
+const MAX_WAIT_FOR_DEVICE_SECONDS = 25; // In the background, also capped by the job's deadline
+const DEVICE_WAIT_BASE_DELAY_MS = 500;
+const DEVICE_WAIT_MAX_DELAY_MS = 4000;
 
-  return null; // Auth successful
+function parseSecondsParam(url: URL, name: string): number | null {
+  const seconds = Number(url.searchParams.get(name));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
 }
 
-/**
- * Main request handler
- */
-async function handleRequest(
-  request: Request,
-  env: Env,
-  ctx: ExecutionContext
-): Promise<Response> {
-  const url = new URL(request.url);
-  const path = url.pathname;
-  const method = request.method;
+function parseTransferMode(url: URL): TransferMode {
   const asyncParam = url.searchParams.get('async');
   const asyncTransfer =
     asyncParam === null ||
     asyncParam === '' ||
     asyncParam === '1' ||
     asyncParam === 'true';
+  const asyncRequested = asyncParam !== null && asyncTransfer;
 
-  // Handle CORS preflight
-  if (method === 'OPTIONS' && path.startsWith('/api')) {
-    return handleOptions();
-  }
+  const waitSeconds = parseSecondsParam(url, 'waitForDevice');
+  const waitForDeviceMs = waitSeconds
+    ? Math.min(waitSeconds, MAX_WAIT_FOR_DEVICE_SECONDS) * 1000
+    : 0;
 
-  // Health check (no auth required)
-  if (method === 'GET' && path === '/health') {
-    return handleHealth();
+  const verifyParam = url.searchParams.get('verify');
+  if (verifyParam !== '1' && verifyParam !== 'true') {
+    return { asyncTransfer, asyncRequested, verify: null, waitForDeviceMs };
   }
 
-  // Auth routes (no automation key required)
-  if (method === 'GET' && path === '/login') {
-    return handleLogin(request, env);
-  }
+  const timeoutSeconds = parseSecondsParam(url, 'verifyTimeout');
+  const timeoutMs = timeoutSeconds
+    ? Math.min(timeoutSeconds * 1000, MAX_VERIFY_TIMEOUT_MS)
+    : DEFAULT_VERIFY_TIMEOUT_MS;
 
-  if (method === 'GET' && path === '/callback') {
-    return handleCallback(request, env);
-  }
+  return { asyncTransfer, asyncRequested, verify: { timeoutMs }, waitForDeviceMs };
+}
 
-  // API routes (require automation key and auth)
-  if (path.startsWith('/api')) {
-    // Check automation key
-    if (!checkAutomationKey(request, env)) {
-      return addCorsHeaders(
-        jsonError(
-          'INVALID_AUTOMATION_KEY',
-          'Invalid or missing X-Automation-Key header',
-          401
-        )
-      );
-    }
+/**
+ * The device a transfer goes to; the name is unknown when only an id was given
+ */
+interface TransferDevice {
+  id: string;
+  name: string | null;
+  defaultVolume?: StoredVolume; // From the target or the device, set once the transfer lands
+  supportsVolume?: boolean; // From Spotify's device list, when it was fetched
+}
 
-    // Check authentication
-    const authError = await requireAuth(env);
-    if (authError) {
-      return authError;
-    }
+/**
+ * Resolves the device for a transfer, polling for up to waitMs while it is missing
+ */
+type DeviceResolver = (
+  waitMs: number
+) => Promise<{ device: TransferDevice } | { failure: ApiFailure }>;
+
+// Failure codes meaning "the device is not in the device list (yet)"
+const DEVICE_MISSING_CODES = [
+  'DEVICE_NOT_FOUND',
+  'NO_TARGET_DEVICE',
+  'NO_ECHO_DEVICE',
+  'PREVIOUS_DEVICE_NOT_FOUND',
+];
 
-    // Route to appropriate handler
-    if (method === 'GET' && path === '/api/devices') {
-      return handleGetDevices(env);
+/**
+ * Fetch the device list, polling with backoff while `select` finds nothing, until
+ * `waitMs` has passed. Returns the devices selected by the last poll (possibly none).
+ */
+async function waitForDevices(
+  env: Env,
+  accountId: string,
+  select: (devices: SpotifyDevice[]) => SpotifyDevice[],
+  waitMs: number
+): Promise<{ devices: SpotifyDevice[] } | { failure: ApiFailure }> {
+  const deadline = Date.now() + waitMs;
+  let delayMs = DEVICE_WAIT_BASE_DELAY_MS;
+
+  while (true) {
+    const result = await fetchDevices(env, accountId);
+    if ('failure' in result) {
+      return result;
     }
 
-    if (method === 'POST' && path === '/api/transfer') {
-      return handleTransfer(request, env, ctx, asyncTransfer);
+    const selected = select(result.devices);
+    const remainingMs = deadline - Date.now();
+    if (selected.length > 0 || remainingMs <= 0) {
+      return { devices: selected };
     }
 
-    if (method === 'POST' && path === '/api/transfer/echo') {
-      return handleTransferEcho(env, ctx, asyncTransfer);
-    }
+    console.warn(`Device not found yet. Checking again in ${Math.min(delayMs, remainingMs)}ms...`);
+    await sleep(Math.min(delayMs, remainingMs));
+    delayMs = Math.min(delayMs * 2, DEVICE_WAIT_MAX_DELAY_MS);
+  }
+}
 
-    // 404 for unknown API routes
-    return addCorsHeaders(jsonError('NOT_FOUND', 'Not found', 404));
+/**
+ * Check that a device id is in the device list, waiting up to waitMs for it to appear
+ */
+async function resolveDeviceById(
+  env: Env,
+  accountId: string,
+  deviceId: string,
+  waitMs: number,
+  defaultVolume: StoredVolume | undefined
+): Promise<{ device: TransferDevice } | { failure: ApiFailure }> {
+  const result = await waitForDevices(
+    env,
+    accountId,
+    (devices) => devices.filter((device) => device.id === deviceId),
+    waitMs
+  );
+  if ('failure' in result) {
+    return result;
   }
 
-  // 404 for unknown routes
-  return jsonError('NOT_FOUND', 'Not found', 404);
-}
+  if (result.devices.length === 0) {
+    return {
+      failure: {
+        code: 'DEVICE_NOT_FOUND',
+        message: `Device ${deviceId} did not appear in the device list. Wake it and try again.`,
+        status: 404,
+      },
+    };
+  }
+
+  const { name, supports_volume } = result.devices[0];
+  return { device: { id: deviceId, name, defaultVolume, supportsVolume: supports_volume } };
+}
+
+/**
+ * What a transfer was asked to do, and by whom
+ */
+interface TransferSubject {
+  deviceId: string | null;
+  target: string | null;
+  caller: string | null; // Label recorded in the transfer history
+  callbackUrl: string | null; // Notified when the transfer finishes in the background
+  fallbackContent: PlaybackContent | null; // Started instead when nothing is playing
+  volume: VolumeOption | null; // Set once the transfer lands
+}
+
+/**
+ * Where a transfer started, carried along until its outcome is recorded
+ */
+interface TransferOrigin {
+  caller: string | null;
+  sourceDevice: HistoryDevice | null; // Device that was active before the transfer
+  startedAt: number; // Date.now() when the transfer was requested
+  callbackUrl: string | null;
+  fallbackContent: PlaybackContent | null; // Started if there is no session to transfer
+  startedFresh: boolean; // Set once fallbackContent was started in place of a transfer
+  volume: VolumeOption | null;
+  sourceVolume: number | null; // Volume of sourceDevice, for the "source" volume option
+}
+
+/**
+ * Find the device that is currently active, if any
+ * Returns null when none is active or the device list could not be fetched.
+ */
+async function findActiveDevice(env: Env, accountId: string): Promise<SpotifyDevice | null> {
+  try {
+    const result = await fetchDevices(env, accountId);
+    const active = 'devices' in result ? result.devices.find((device) => device.is_active) : null;
+    return active ?? null;
+  } catch (error) {
+    console.error('Error looking up the active device:', error);
+    return null;
+  }
+}
+
+/**
+ * Set the volume a transfer asked for (or its target's default) on the device it landed on
+ * Returns null when there is no volume to set.
+ */
+async function applyTransferVolume(
+  env: Env,
+  accountId: string,
+  device: TransferDevice,
+  origin: TransferOrigin
+): Promise<VolumeHandoff | null> {
+  const source = origin.sourceDevice && {
+    name: origin.sourceDevice.name,
+    percent: origin.sourceVolume,
+  };
+  const plan = planVolume(origin.volume, source, device.defaultVolume ?? null);
+  return plan ? applyVolume(env, accountId, device.id, plan, device.supportsVolume ?? null) : null;
+}
+
+/**
+ * The success message for a transfer, or for content started in its place
+ */
+function transferredMessage(deviceName: string | null, startedFresh: boolean): string {
+  return startedFresh
+    ? `Started playback on ${deviceName}`
+    : `Playback transferred to ${deviceName}`;
+}
+
+/**
+ * After a successful transfer, remember the device it moved away from for
+ * /api/transfer/back. Awaited before responding, so a call right after this one finds it.
+ */
+async function rememberSourceDevice(
+  env: Env,
+  accountId: string,
+  origin: TransferOrigin,
+  device: TransferDevice
+): Promise<void> {
+  if (origin.sourceDevice) {
+    await pushPreviousDevice(env, accountId, origin.sourceDevice, device.id);
+  }
+}
+
+/**
+ * Record a finished transfer in the account's history
+ */
+async function recordTransferOutcome(
+  env: Env,
+  accountId: string,
+  subject: TransferSubject,
+  origin: TransferOrigin,
+  device: TransferDevice | null,
+  attempts: number,
+  failure: ApiFailure | null
+): Promise<void> {
+  await recordTransfer(env, accountId, {
+    status: failure ? 'FAILED' : 'SUCCEEDED',
+    caller: origin.caller,
+    sourceDevice: origin.sourceDevice,
+    deviceId: device?.id ?? subject.deviceId,
+    deviceName: device?.name ?? null,
+    target: subject.target,
+    attempts,
+    latency_ms: Date.now() - origin.startedAt,
+    code: failure?.code ?? null,
+    message:
+      failure?.message ??
+      transferredMessage(device?.name ?? device?.id ?? null, origin.startedFresh),
+    jobId: null,
+  });
+}
+
+/**
+ * Record the outcome of a transfer job that finished in the background, remember the
+ * device it moved away from, and send it to the job's callbackUrl and the default
+ * webhook endpoints
+ */
+async function recordJobOutcome(
+  env: Env,
+  job: TransferJob,
+  origin: TransferOrigin
+): Promise<void> {
+  const recorded = recordTransfer(env, job.accountId, {
+    status: job.status === 'SUCCEEDED' ? 'SUCCEEDED' : 'FAILED',
+    caller: origin.caller,
+    sourceDevice: origin.sourceDevice,
+    deviceId: job.deviceId,
+    deviceName: job.deviceName,
+    target: job.target,
+    attempts: job.attempts,
+    latency_ms: Date.now() - origin.startedAt,
+    code: job.error?.code ?? null,
+    message:
+      job.error?.message ?? transferredMessage(job.deviceName ?? job.deviceId, job.startedFresh),
+    jobId: job.id,
+  });
+  const remembered =
+    job.status === 'SUCCEEDED' && job.deviceId && origin.sourceDevice
+      ? pushPreviousDevice(env, job.accountId, origin.sourceDevice, job.deviceId)
+      : null;
+  await Promise.all([recorded, remembered, deliverTransferWebhooks(env, job, origin.callbackUrl)]);
+}
+
+/**
+ * Resolve the device to transfer to, then transfer.
+ * With waitForDevice a missing device is polled for until it appears; in async mode that
+ * wait happens in the background under a transfer job, which is returned instead.
+ * The outcome is added to the transfer history once the transfer finishes.
+ */
+async function resolveAndTransfer(
+  env: Env,
+  ctx: ExecutionContext,
+  accountId: string,
+  resolve: DeviceResolver,
+  subject: TransferSubject,
+  play: boolean,
+  mode: TransferMode
+): Promise<
+  | { failure: ApiFailure }
+  | { job: TransferJob }
+  | {
+      device: TransferDevice;
+      response: Response;
+      verification: TransferVerification | null;
+      volume: VolumeHandoff | null;
+      startedFresh: boolean;
+    }
+> {
+  const waitInBackground = mode.asyncTransfer && mode.waitForDeviceMs > 0;
+  const startedAt = Date.now();
+  // Note which device was playing before, for the history
+  const [resolved, sourceDevice] = await Promise.all([
+    resolve(waitInBackground ? 0 : mode.waitForDeviceMs),
+    findActiveDevice(env, accountId),
+  ]);
+  const origin: TransferOrigin = {
+    caller: subject.caller,
+    sourceDevice: sourceDevice && { id: sourceDevice.id, name: sourceDevice.name },
+    startedAt,
+    callbackUrl: subject.callbackUrl,
+    fallbackContent: subject.fallbackContent,
+    startedFresh: false,
+    volume: subject.volume,
+    sourceVolume: sourceDevice?.volume_percent ?? null,
+  };
+
+  if ('failure' in resolved) {
+    if (waitInBackground && DEVICE_MISSING_CODES.includes(resolved.failure.code)) {
+      const job = await createTransferJob(env, accountId, {
+        deviceId: subject.deviceId,
+        deviceName: null,
+        target: subject.target,
+        status: 'WAITING_FOR_DEVICE',
+        attempts: 0,
+        lastSpotifyStatus: null,
+        startedFresh: false,
+      });
+      ctx.waitUntil(transferWhenDeviceAppears(env, job, resolve, play, mode, origin));
+      return { job };
+    }
+    ctx.waitUntil(
+      recordTransferOutcome(env, accountId, subject, origin, null, 0, resolved.failure)
+    );
+    return resolved;
+  }
+
+  const device = resolved.device;
+  const result = await runTransfer(
+    env,
+    ctx,
+    accountId,
+    device,
+    subject.target,
+    origin,
+    play,
+    mode
+  );
+  if ('job' in result) {
+    return result;
+  }
+
+  // Classify a copy; the caller still reads the original response's error body
+  const { response, verification, volume, attempts } = result;
+  if (response.ok) {
+    await rememberSourceDevice(env, accountId, origin, device);
+  }
+  const failed = response.ok ? null : response.clone();
+  ctx.waitUntil(
+    (failed ? classifySpotifyFailure(failed) : Promise.resolve(null)).then((failure) =>
+      recordTransferOutcome(env, accountId, subject, origin, device, attempts, failure)
+    )
+  );
+
+  return {
+    device,
+    response,
+    verification,
+    volume,
+    startedFresh: origin.startedFresh,
+  };
+}
+
+/**
+ * Transfer playback to a device, retrying transient failures.
+ * In async mode only the first attempt runs inline and the remaining retries continue
+ * in the background, tracked by a transfer job that is returned instead of a response.
+ * A successful transfer is followed by setting the requested volume, if any, and in verify
+ * mode by polling until the device is active.
+ */
+async function runTransfer(
+  env: Env,
+  ctx: ExecutionContext,
+  accountId: string,
+  device: TransferDevice,
+  target: string | null,
+  origin: TransferOrigin,
+  play: boolean,
+  mode: TransferMode
+): Promise<
+  | {
+      response: Response;
+      verification: TransferVerification | null;
+      volume: VolumeHandoff | null;
+      attempts: number;
+    }
+  | { job: TransferJob }
+> {
+  const makeRequest = transferRequest(env, accountId, device.id, play, origin);
+
+  let response: Response;
+  let attempts = 1;
+  if (mode.asyncTransfer) {
+    response = await makeRequest();
+    if (!response.ok && shouldRetryTransfer(response)) {
+      const job = await createTransferJob(env, accountId, {
+        deviceId: device.id,
+        deviceName: device.name,
+        target,
+        status: 'RETRYING',
+        attempts: 1,
+        lastSpotifyStatus: response.status,
+        startedFresh: origin.startedFresh,
+      });
+      ctx.waitUntil(completeTransferInBackground(env, job, device, play, mode.verify, 2, origin));
+      return { job };
+    }
+  } else {
+    response = await retryTransfer(makeRequest, {
+      onAttempt: async (attempt) => {
+        attempts = attempt;
+      },
+    });
+  }
+
+  const volume = response.ok ? await applyTransferVolume(env, accountId, device, origin) : null;
+  const verification =
+    response.ok && mode.verify
+      ? await verifyTransfer(env, accountId, device.id, play, mode.verify)
+      : null;
+
+  return { response, verification, volume, attempts };
+}
+
+/**
+ * When a job's wait, retries and verification must be done by (Unix timestamp in
+ * milliseconds), leaving the rest of its budget for webhook delivery
+ */
+function jobWorkDeadline(job: TransferJob): number {
+  return job.deadline_at * 1000 - WEBHOOK_DELIVERY_BUDGET_MS;
+}
+
+const JOB_TIMEOUT_ERROR = {
+  code: 'TRANSFER_TIMEOUT',
+  message: `The transfer did not finish within ${TRANSFER_JOB_BUDGET_SECONDS} seconds.`,
+};
+
+/**
+ * Job error for an exception thrown by a background transfer: RECONNECT_REQUIRED when
+ * Spotify rejected the refresh token, INTERNAL_ERROR otherwise
+ */
+function backgroundJobError(env: Env, error: unknown): { code: string; message: string } {
+  if (error instanceof ReconnectRequiredError) {
+    const failure = accessRevoked(env);
+    return { code: failure.code, message: failure.message };
+  }
+  console.error('Error in background transfer:', error);
+  return { code: 'INTERNAL_ERROR', message: 'Failed to transfer playback' };
+}
+
+/**
+ * Store a background job's outcome, then record it and send its webhooks
+ * A failed final write is logged; the history entry and webhooks still carry the outcome.
+ */
+async function finishTransferJob(
+  env: Env,
+  job: TransferJob,
+  origin: TransferOrigin,
+  changes: TransferJobChanges & { status: 'SUCCEEDED' | 'FAILED' }
+): Promise<void> {
+  const settled = settleTransferJob(job, changes);
+  try {
+    await writeTransferJobResult(env, settled);
+  } catch (error) {
+    console.error(`Error storing the outcome of transfer job ${job.id}:`, error);
+  }
+  await recordJobOutcome(env, settled, origin);
+}
+
+/**
+ * Wait in the background for a job's device to appear, then transfer to it
+ */
+async function transferWhenDeviceAppears(
+  env: Env,
+  job: TransferJob,
+  resolve: DeviceResolver,
+  play: boolean,
+  mode: TransferMode,
+  origin: TransferOrigin
+): Promise<void> {
+  try {
+    const waitMs = Math.min(mode.waitForDeviceMs, Math.max(jobWorkDeadline(job) - Date.now(), 0));
+    const resolved = await resolve(waitMs);
+    if ('failure' in resolved) {
+      // The device may still have appeared had the deadline allowed the full wait
+      const timedOut =
+        waitMs < mode.waitForDeviceMs && DEVICE_MISSING_CODES.includes(resolved.failure.code);
+      await finishTransferJob(env, job, origin, {
+        status: 'FAILED',
+        error: timedOut
+          ? JOB_TIMEOUT_ERROR
+          : { code: resolved.failure.code, message: resolved.failure.message },
+      });
+      return;
+    }
+
+    job = await updateTransferJob(env, job, {
+      status: 'RETRYING',
+      deviceId: resolved.device.id,
+      deviceName: resolved.device.name,
+    });
+    await completeTransferInBackground(env, job, resolved.device, play, mode.verify, 1, origin);
+  } catch (error) {
+    await finishTransferJob(env, job, origin, {
+      status: 'FAILED',
+      error: backgroundJobError(env, error),
+    });
+  }
+}
+
+/**
+ * Continue retrying a transfer after the request has returned, recording each attempt,
+ * the final outcome and (in verify mode) the verification result on its job.
+ * Retries stop at the job's deadline, failing the job with TRANSFER_TIMEOUT, and
+ * verification is cut short to fit.
+ */
+async function completeTransferInBackground(
+  env: Env,
+  job: TransferJob,
+  device: TransferDevice,
+  play: boolean,
+  verify: VerifyOptions | null,
+  initialAttempt: number,
+  origin: TransferOrigin
+): Promise<void> {
+  try {
+    const makeRequest = transferRequest(env, job.accountId, device.id, play, origin);
+    const response = await retryTransfer(makeRequest, {
+      initialAttempt,
+      deadline: jobWorkDeadline(job),
+      onAttempt: async (attempt, attemptResponse) => {
+        job = await updateTransferJob(env, job, {
+          attempts: attempt,
+          lastSpotifyStatus: attemptResponse?.status ?? job.lastSpotifyStatus,
+        });
+      },
+    });
+
+    if (response.ok) {
+      const volume = await applyTransferVolume(env, job.accountId, device, origin);
+      // Verification gets what is left of the job's time, up to its own timeout
+      const remainingMs = Math.max(jobWorkDeadline(job) - Date.now(), 0);
+      const verification = verify
+        ? await verifyTransfer(env, job.accountId, device.id, play, {
+            timeoutMs: Math.min(verify.timeoutMs, remainingMs),
+          })
+        : null;
+      await finishTransferJob(env, job, origin, {
+        status: 'SUCCEEDED',
+        startedFresh: origin.startedFresh,
+        verification,
+        volume,
+      });
+      return;
+    }
+
+    const failure = await classifySpotifyFailure(response);
+    await finishTransferJob(env, job, origin, {
+      status: 'FAILED',
+      error: { code: failure.code, message: failure.message },
+    });
+  } catch (error) {
+    await finishTransferJob(env, job, origin, {
+      status: 'FAILED',
+      error:
+        error instanceof TransferDeadlineError ? JOB_TIMEOUT_ERROR : backgroundJobError(env, error),
+    });
+  }
+}
+
+/**
+ * Map a classified Spotify error to the API error callers see, with a message that says
+ * what to do about it
+ */
+function spotifyFailure(error: SpotifyError): ApiFailure {
+  switch (error.kind) {
+    case 'PREMIUM_REQUIRED':
+      return {
+        code: 'PREMIUM_REQUIRED',
+        message: 'Spotify Premium is required for playback control.',
+        status: 403,
+      };
+    case 'DEVICE_RESTRICTED':
+      return {
+        code: 'DEVICE_RESTRICTED',
+        message:
+          'This device does not allow remote control from the Web API. ' +
+          'Control it from the Spotify app or choose another device.',
+        status: 403,
+      };
+    case 'DEVICE_NOT_FOUND':
+      return {
+        code: 'DEVICE_NOT_FOUND',
+        message: 'Spotify does not know this device. Open Spotify on it and try again.',
+        status: 404,
+      };
+    case 'NO_ACTIVE_DEVICE':
+      return {
+        code: 'NO_ACTIVE_DEVICE',
+        message: 'No active device found. Please start playing something on Spotify first.',
+        status: 404,
+      };
+    case 'COMMAND_NOT_ALLOWED':
+      return {
+        code: 'COMMAND_NOT_ALLOWED',
+        message: `Spotify does not allow this right now: ${error.message}`,
+        status: 409,
+      };
+    case 'INSUFFICIENT_SCOPE':
+      return {
+        code: 'SPOTIFY_SCOPE_MISSING',
+        message:
+          'The Spotify connection lacks a permission this action needs. ' +
+          'Visit /login to reconnect.',
+        status: 403,
+      };
+    case 'UNAUTHORIZED':
+      return {
+        code: 'NOT_AUTHENTICATED',
+        message: 'Spotify rejected the access token. Visit /login to reconnect.',
+        status: 401,
+      };
+    case 'RATE_LIMITED':
+      return {
+        code: 'SPOTIFY_RATE_LIMITED',
+        message: error.retryAfter
+          ? `Spotify is rate limiting requests. Try again in ${error.retryAfter} seconds.`
+          : 'Spotify is rate limiting requests. Try again shortly.',
+        status: 429,
+        ...(error.retryAfter !== null && { retryAfter: error.retryAfter }),
+      };
+    case 'UPSTREAM_UNAVAILABLE':
+      return {
+        code: 'SPOTIFY_UNAVAILABLE',
+        message: 'Spotify is temporarily unavailable. Try again shortly.',
+        status: 503,
+      };
+    case 'BAD_REQUEST':
+      return { code: 'INVALID_REQUEST', message: error.message, status: 400 };
+    default:
+      return { code: 'SPOTIFY_ERROR', message: error.message, status: error.status };
+  }
+}
+
+/**
+ * Classify a failed Spotify API response into an API error
+ */
+async function classifySpotifyFailure(response: Response): Promise<ApiFailure> {
+  return spotifyFailure(await classifySpotifyError(response));
+}
+
+/**
+ * Map a failed Spotify API response to an API error response
+ */
+async function spotifyErrorResponse(response: Response): Promise<Response> {
+  return failureResponse(await classifySpotifyFailure(response));
+}
+
+/**
+ * 202 response for a transfer that continues in the background
+ */
+function backgroundTransferResponse(job: TransferJob, deviceLabel: string): Response {
+  if (job.status === 'WAITING_FOR_DEVICE') {
+    return inProgressResponse(
+      `Waiting for ${deviceLabel} to appear. Transfer will start as soon as it does.`,
+      job
+    );
+  }
+
+  return inProgressResponse(
+    `Transfer to ${deviceLabel} in progress. Retrying and will complete shortly.`,
+    job
+  );
+}
+
+/**
+ * Check a transfer's fallbackContent before accepting it
+ */
+function checkFallbackContent(fallbackContent: PlaybackContent | undefined): Response | null {
+  const problem = fallbackContent && validatePlaybackContent(fallbackContent);
+  return problem ? addCorsHeaders(jsonError('INVALID_REQUEST', problem, 400)) : null;
+}
+
+/**
+ * Check a transfer's volume option before accepting it
+ */
+function checkVolumeOption(volume: unknown): Response | null {
+  const problem = validateVolumeOption(volume);
+  return problem ? addCorsHeaders(jsonError('INVALID_REQUEST', problem, 400)) : null;
+}
+
+/**
+ * Check a transfer's callbackUrl before accepting it
+ * Returns an error response when it is malformed or webhooks cannot be signed.
+ */
+function checkCallbackUrl(env: Env, callbackUrl: string | undefined): Response | null {
+  if (callbackUrl === undefined) {
+    return null;
+  }
+  if (!isValidWebhookUrl(callbackUrl)) {
+    return addCorsHeaders(
+      jsonError(
+        'INVALID_REQUEST',
+        'callbackUrl must be an absolute https URL (http only for localhost)',
+        400
+      )
+    );
+  }
+  if (!env.WEBHOOK_SECRET) {
+    return addCorsHeaders(
+      jsonError(
+        'WEBHOOKS_NOT_CONFIGURED',
+        'callbackUrl needs the WEBHOOK_SECRET secret, which signs webhook deliveries',
+        400
+      )
+    );
+  }
+  return null;
+}
+
+// Failures that rule out one device of a fallback chain (DEVICE_NOT_FOUND on a transfer to
+// a listed device means it went away); anything else (no active device, auth, Premium, rate
+// limits, Spotify outages) would fail for every device, so it ends the chain
+const FALLBACK_SKIP_CODES = ['DEVICE_NOT_FOUND', 'DEVICE_RESTRICTED'];
+
+/**
+ * Reject options a fallback chain cannot honor: it always runs inline, so there is no
+ * background job to wait for its device or to report to a callbackUrl
+ */
+function checkFallbackChainMode(
+  mode: TransferMode,
+  callbackUrl: string | undefined
+): Response | null {
+  const unsupported = [
+    ...(callbackUrl !== undefined ? ['callbackUrl'] : []),
+    ...(mode.asyncRequested ? ['async'] : []),
+    ...(mode.waitForDeviceMs > 0 ? ['waitForDevice'] : []),
+  ];
+  if (unsupported.length === 0) {
+    return null;
+  }
+  return addCorsHeaders(
+    jsonError(
+      'INVALID_REQUEST',
+      `devices always transfers inline; ${unsupported.join(', ')} cannot be used with it`,
+      400
+    )
+  );
+}
+
+/**
+ * Transfer to the first device of a fallback chain that is present and accepts the
+ * transfer. Candidates are tried inline, in order, each with the usual retries (see
+ * checkFallbackChainMode). The response reports what happened to every candidate.
+ */
+async function transferToFallbackChain(
+  env: Env,
+  accountId: string,
+  candidates: FallbackCandidate[],
+  play: boolean,
+  fallbackContent: PlaybackContent | null,
+  volume: VolumeOption | null,
+  caller: string,
+  verify: VerifyOptions | null
+): Promise<Response> {
+  const startedAt = Date.now();
+  const [devicesResult, targets, deviceVolumes] = await Promise.all([
+    fetchDevices(env, accountId),
+    listTargets(env, accountId),
+    readDeviceVolumes(env, accountId),
+  ]);
+  if ('failure' in devicesResult) {
+    return failureResponse(devicesResult.failure);
+  }
+
+  const active = devicesResult.devices.find((device) => device.is_active);
+  const origin: TransferOrigin = {
+    caller,
+    sourceDevice: active ? { id: active.id, name: active.name } : null,
+    startedAt,
+    callbackUrl: null,
+    fallbackContent,
+    startedFresh: false,
+    volume,
+    sourceVolume: active?.volume_percent ?? null,
+  };
+  const outcomes: CandidateOutcome[] = candidates.map((candidate) => ({
+    candidate,
+    status: 'not_tried',
+    device: null,
+    reason: null,
+  }));
+  const record = (device: TransferDevice | null, attempts: number, failure: ApiFailure | null) =>
+    recordTransferOutcome(
+      env,
+      accountId,
+      {
+        deviceId: device?.id ?? null,
+        target: null,
+        caller,
+        callbackUrl: null,
+        fallbackContent,
+        volume,
+      },
+      origin,
+      device,
+      attempts,
+      failure
+    );
+
+  let attempts = 0;
+  for (let i = 0; i < candidates.length; i++) {
+    const match = matchCandidate(candidates[i], devicesResult.devices, targets);
+    if ('reason' in match) {
+      outcomes[i] = { ...outcomes[i], status: 'skipped', reason: match.reason };
+      continue;
+    }
+
+    const candidate = candidates[i];
+    const target =
+      'target' in candidate ? targets.find((stored) => stored.name === candidate.target) : null;
+    const device: TransferDevice = {
+      id: match.device.id,
+      name: match.device.name,
+      // A target candidate uses the target's default volume, any other the device's
+      defaultVolume: target
+        ? targetDefaultVolume(target)
+        : deviceDefaultVolume(deviceVolumes, match.device.id),
+      supportsVolume: match.device.supports_volume,
+    };
+    outcomes[i].device = { id: match.device.id, name: match.device.name };
+    let deviceAttempts = 1;
+    const makeRequest = transferRequest(env, accountId, device.id, play, origin);
+    const response = await retryTransfer(makeRequest, {
+      onAttempt: async (attempt) => {
+        deviceAttempts = attempt;
+      },
+    });
+    attempts += deviceAttempts;
+
+    if (response.ok) {
+      outcomes[i].status = 'chosen';
+      const startedFresh = origin.startedFresh;
+      const volumeHandoff = await applyTransferVolume(env, accountId, device, origin);
+      const verification = verify
+        ? await verifyTransfer(env, accountId, device.id, play, verify)
+        : null;
+      await Promise.all([
+        rememberSourceDevice(env, accountId, origin, device),
+        record(device, attempts, null),
+      ]);
+      return addCorsHeaders(
+        jsonSuccess({
+          success: true,
+          message: transferredMessage(device.name, startedFresh),
+          device: { id: device.id, name: device.name },
+          candidates: outcomes,
+          ...(fallbackContent && { startedFresh }),
+          ...(volumeHandoff && { volume: volumeHandoff }),
+          ...(verification && { verification }),
+        })
+      );
+    }
+
+    const failure = await classifySpotifyFailure(response);
+    if (!FALLBACK_SKIP_CODES.includes(failure.code)) {
+      outcomes[i] = { ...outcomes[i], status: 'failed', reason: failure.message };
+      await record(device, attempts, failure);
+      return failureResponse({ ...failure, candidates: outcomes });
+    }
+    outcomes[i] = {
+      ...outcomes[i],
+      status: 'skipped',
+      reason:
+        failure.code === 'DEVICE_NOT_FOUND'
+          ? 'Listed, but Spotify could not reach it'
+          : failure.message,
+    };
+  }
+
+  const failure: ApiFailure = {
+    code: 'NO_FALLBACK_DEVICE',
+    message: `None of the ${candidates.length} devices is available.`,
+    status: 404,
+    candidates: outcomes,
+  };
+  await record(null, attempts, failure);
+  return failureResponse(failure);
+}
+
+/**
+ * POST /api/transfer
+ * Transfers playback to a specified device, or to the first available device of a
+ * fallback chain
+ * Body: { deviceId: string | devices: FallbackCandidate[], play?: boolean,
+ *         fallbackContent?: PlaybackContent, volume?: number | "source", callbackUrl?: string }
+ * fallbackContent is started on the device instead when there is no playback to transfer.
+ */
+async function handleTransfer(
+  body: TransferBody,
+  env: Env,
+  ctx: ExecutionContext,
+  accountId: string,
+  caller: string,
+  mode: TransferMode
+): Promise<Response> {
+  try {
+    const { deviceId, devices, play, fallbackContent, volume, callbackUrl } = body;
+    const bodyError =
+      checkFallbackContent(fallbackContent) ??
+      checkVolumeOption(volume) ??
+      checkCallbackUrl(env, callbackUrl);
+    if (bodyError) {
+      return bodyError;
+    }
+
+    if (devices !== undefined) {
+      if (deviceId !== undefined) {
+        return addCorsHeaders(
+          jsonError('INVALID_REQUEST', 'Provide either deviceId or devices, not both', 400)
+        );
+      }
+      const modeError = checkFallbackChainMode(mode, callbackUrl);
+      if (modeError) {
+        return modeError;
+      }
+      const chain = parseFallbackChain(devices);
+      if ('error' in chain) {
+        return addCorsHeaders(jsonError('INVALID_REQUEST', chain.error, 400));
+      }
+      return transferToFallbackChain(
+        env,
+        accountId,
+        chain,
+        play ?? true,
+        fallbackContent ?? null,
+        volume ?? null,
+        caller,
+        mode.verify
+      );
+    }
+
+    if (deviceId === undefined) {
+      return addCorsHeaders(jsonError('INVALID_REQUEST', 'deviceId is required', 400));
+    }
+
+    const defaultVolume = deviceDefaultVolume(await readDeviceVolumes(env, accountId), deviceId);
+    // Only look the device up when asked to wait for it; otherwise Spotify reports a missing one
+    const resolve: DeviceResolver = async (waitMs) =>
+      mode.waitForDeviceMs > 0
+        ? resolveDeviceById(env, accountId, deviceId, waitMs, defaultVolume)
+        : { device: { id: deviceId, name: null, defaultVolume } };
+
+    const result = await resolveAndTransfer(
+      env,
+      ctx,
+      accountId,
+      resolve,
+      {
+        deviceId,
+        target: null,
+        caller,
+        callbackUrl: callbackUrl ?? null,
+        fallbackContent: fallbackContent ?? null,
+        volume: volume ?? null,
+      },
+      play !== undefined ? play : true,
+      mode
+    );
+
+    if ('failure' in result) {
+      return failureResponse(result.failure);
+    }
+
+    if ('job' in result) {
+      return backgroundTransferResponse(result.job, 'the device');
+    }
+
+    const response = result.response;
+    if (!response.ok) {
+      return spotifyErrorResponse(response);
+    }
+
+    return addCorsHeaders(
+      jsonSuccess({
+        success: true,
+        message: result.startedFresh ? 'Playback started' : 'Playback transferred successfully',
+        ...(fallbackContent && { startedFresh: result.startedFresh }),
+        ...(result.volume && { volume: result.volume }),
+        ...(result.verification && { verification: result.verification }),
+      })
+    );
+  } catch (error) {
+    if (error instanceof ReconnectRequiredError) {
+      return failureResponse(accessRevoked(env));
+    }
+    console.error('Error transferring playback:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to transfer playback', 500));
+  }
+}
+
+/**
+ * Error codes and messages reported when a target resolves to no device or to several.
+ * The built-in "echo" target keeps the codes /api/transfer/echo has always returned.
+ */
+function targetResolutionErrors(target: Target): {
+  none: { code: string; message: string };
+  multiple: { code: string; message: string };
+} {
+  if (target.name === 'echo') {
+    return {
+      none: {
+        code: 'NO_ECHO_DEVICE',
+        message: 'Wake your Echo, open Spotify, start playback once.',
+      },
+      multiple: {
+        code: 'MULTIPLE_ECHO_DEVICES',
+        message: 'Multiple Echo devices found. Please specify which device to use.',
+      },
+    };
+  }
+
+  return {
+    none: {
+      code: 'NO_TARGET_DEVICE',
+      message: `No available device matches target "${target.name}".`,
+    },
+    multiple: {
+      code: 'MULTIPLE_TARGET_DEVICES',
+      message: `Multiple devices match target "${target.name}". Please narrow its rules.`,
+    },
+  };
+}
+
+/**
+ * Resolve a named target to the single device it currently matches,
+ * waiting up to waitMs for a matching device to appear
+ */
+async function resolveTargetDevice(
+  env: Env,
+  accountId: string,
+  targetName: string,
+  waitMs: number = 0
+): Promise<{ device: TransferDevice } | { failure: ApiFailure }> {
+  const target = await findTarget(env, accountId, targetName);
+  if (!target) {
+    return {
+      failure: {
+        code: 'TARGET_NOT_FOUND',
+        message: `No transfer target named "${targetName}".`,
+        status: 404,
+      },
+    };
+  }
+
+  const devicesResult = await waitForDevices(
+    env,
+    accountId,
+    (devices) => resolveTargetDevices(devices, target),
+    waitMs
+  );
+  if ('failure' in devicesResult) {
+    return devicesResult;
+  }
+
+  const matchingDevices = devicesResult.devices;
+  const errors = targetResolutionErrors(target);
+
+  if (matchingDevices.length === 0) {
+    return { failure: { ...errors.none, status: 404 } };
+  }
+
+  // If multiple devices match, report them so the caller can pick one
+  if (matchingDevices.length > 1) {
+    return {
+      failure: {
+        ...errors.multiple,
+        status: 409,
+        devices: matchingDevices.map((d) => ({ id: d.id, name: d.name })),
+      },
+    };
+  }
+
+  const { id, name, supports_volume } = matchingDevices[0];
+  return {
+    device: {
+      id,
+      name,
+      defaultVolume: targetDefaultVolume(target),
+      supportsVolume: supports_volume,
+    },
+  };
+}
+
+/**
+ * POST /api/transfer/:target
+ * Transfers playback to the single device matching a named target (e.g. /api/transfer/echo)
+ * Body (optional): { play?: boolean, fallbackContent?: PlaybackContent,
+ *                   volume?: number | "source", callbackUrl?: string }
+ */
+async function handleTransferTarget(
+  body: TransferTargetBody,
+  env: Env,
+  ctx: ExecutionContext,
+  accountId: string,
+  targetName: string,
+  caller: string,
+  mode: TransferMode
+): Promise<Response> {
+  try {
+    const bodyError =
+      checkFallbackContent(body.fallbackContent) ??
+      checkVolumeOption(body.volume) ??
+      checkCallbackUrl(env, body.callbackUrl);
+    if (bodyError) {
+      return bodyError;
+    }
+
+    // Resolve the target against the current device list (404/409 if not exactly one)
+    const resolve: DeviceResolver = (waitMs) =>
+      resolveTargetDevice(env, accountId, targetName, waitMs);
+
+    const result = await resolveAndTransfer(
+      env,
+      ctx,
+      accountId,
+      resolve,
+      {
+        deviceId: null,
+        target: targetName,
+        caller,
+        callbackUrl: body.callbackUrl ?? null,
+        fallbackContent: body.fallbackContent ?? null,
+        volume: body.volume ?? null,
+      },
+      body.play !== undefined ? body.play : true,
+      mode
+    );
+
+    if ('failure' in result) {
+      return failureResponse(result.failure);
+    }
+
+    if ('job' in result) {
+      return backgroundTransferResponse(result.job, result.job.deviceName ?? targetName);
+    }
+
+    const targetDevice = result.device;
+    const transferResponse = result.response;
+
+    if (!transferResponse.ok) {
+      return spotifyErrorResponse(transferResponse);
+    }
+
+    return addCorsHeaders(
+      jsonSuccess({
+        success: true,
+        message: transferredMessage(targetDevice.name, result.startedFresh),
+        device: {
+          id: targetDevice.id,
+          name: targetDevice.name,
+        },
+        ...(body.fallbackContent && { startedFresh: result.startedFresh }),
+        ...(result.volume && { volume: result.volume }),
+        ...(result.verification && { verification: result.verification }),
+      })
+    );
+  } catch (error) {
+    if (error instanceof ReconnectRequiredError) {
+      return failureResponse(accessRevoked(env));
+    }
+    console.error(`Error transferring to target ${targetName}:`, error);
+    return addCorsHeaders(
+      jsonError('INTERNAL_ERROR', `Failed to transfer playback to ${targetName}`, 500)
+    );
+  }
+}
+
+/**
+ * Resolve the most recent previous device that is listed and not already playing,
+ * waiting up to waitMs for one to appear
+ */
+async function resolvePreviousDevice(
+  env: Env,
+  accountId: string,
+  previous: PreviousDevice[],
+  waitMs: number
+): Promise<{ device: TransferDevice } | { failure: ApiFailure }> {
+  const result = await waitForDevices(
+    env,
+    accountId,
+    (devices) =>
+      devices.filter(
+        (device) => !device.is_active && previous.some((entry) => entry.id === device.id)
+      ),
+    waitMs
+  );
+  if ('failure' in result) {
+    return result;
+  }
+
+  // The stack is oldest first, so the last listed entry is the most recent
+  const entry = [...previous].reverse().find((e) => result.devices.some((d) => d.id === e.id));
+  if (!entry) {
+    const names = previous.map((e) => e.name ?? e.id).join(', ');
+    return {
+      failure: {
+        code: 'PREVIOUS_DEVICE_NOT_FOUND',
+        message: `None of the previous devices (${names}) is available. Wake one and try again.`,
+        status: 404,
+      },
+    };
+  }
+
+  const device = result.devices.find((d) => d.id === entry.id) as SpotifyDevice;
+  return { device: { id: device.id, name: device.name, supportsVolume: device.supports_volume } };
+}
+
+/**
+ * POST /api/transfer/back
+ * Transfers playback back to the device it was most recently moved away from. Since that
+ * transfer is remembered too, calling it again toggles between the two devices.
+ * Body (optional): as for /api/transfer/:target
+ */
+async function handleTransferBack(
+  body: TransferTargetBody,
+  env: Env,
+  ctx: ExecutionContext,
+  accountId: string,
+  caller: string,
+  mode: TransferMode
+): Promise<Response> {
+  try {
+    const bodyError =
+      checkFallbackContent(body.fallbackContent) ??
+      checkVolumeOption(body.volume) ??
+      checkCallbackUrl(env, body.callbackUrl);
+    if (bodyError) {
+      return bodyError;
+    }
+
+    const previous = await readPreviousDevices(env, accountId);
+    if (previous.length === 0) {
+      return addCorsHeaders(
+        jsonError('NO_PREVIOUS_DEVICE', 'There is no earlier transfer to go back from.', 404)
+      );
+    }
+
+    const result = await resolveAndTransfer(
+      env,
+      ctx,
+      accountId,
+      (waitMs) => resolvePreviousDevice(env, accountId, previous, waitMs),
+      {
+        deviceId: null,
+        target: null,
+        caller,
+        callbackUrl: body.callbackUrl ?? null,
+        fallbackContent: body.fallbackContent ?? null,
+        volume: body.volume ?? null,
+      },
+      body.play !== undefined ? body.play : true,
+      mode
+    );
+
+    if ('failure' in result) {
+      return failureResponse(result.failure);
+    }
+
+    if ('job' in result) {
+      return backgroundTransferResponse(result.job, result.job.deviceName ?? 'the previous device');
+    }
+
+    if (!result.response.ok) {
+      return spotifyErrorResponse(result.response);
+    }
+
+    return addCorsHeaders(
+      jsonSuccess({
+        success: true,
+        message: transferredMessage(result.device.name, result.startedFresh),
+        device: { id: result.device.id, name: result.device.name },
+        ...(body.fallbackContent && { startedFresh: result.startedFresh }),
+        ...(result.volume && { volume: result.volume }),
+        ...(result.verification && { verification: result.verification }),
+      })
+    );
+  } catch (error) {
+    if (error instanceof ReconnectRequiredError) {
+      return failureResponse(accessRevoked(env));
+    }
+    console.error('Error transferring back:', error);
+    return addCorsHeaders(
+      jsonError('INTERNAL_ERROR', 'Failed to transfer playback to the previous device', 500)
+    );
+  }
+}
+
+/**
+ * GET /api/player
+ * Returns what is currently playing and on which device
+ */
+async function handleGetPlayback(env: Env, accountId: string): Promise<Response> {
+  try {
+    const response = await spotifyFetch(
+      '/me/player?additional_types=episode',
+      { method: 'GET' },
+      env,
+      accountId
+    );
+
+    // 204 means there is no active playback session
+    if (response.status === 204) {
+      return addCorsHeaders(jsonSuccess({ playback: NOTHING_PLAYING }));
+    }
+
+    if (!response.ok) {
+      return spotifyErrorResponse(response);
+    }
+
+    const data = await response.json<SpotifyPlaybackResponse>();
+    return addCorsHeaders(jsonSuccess({ playback: normalizePlaybackState(data) }));
+  } catch (error) {
+    if (error instanceof ReconnectRequiredError) {
+      return failureResponse(accessRevoked(env));
+    }
+    console.error('Error fetching playback state:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to fetch playback state', 500));
+  }
+}
+
+/**
+ * POST /api/player/:command
+ * Controls playback: play, pause, next, previous, seek, volume, shuffle, repeat
+ * Body: { deviceId?: string, ...command-specific fields (see buildPlayerRequest) }
+ */
+async function handlePlayerCommand(
+  body: Record<string, unknown>,
+  env: Env,
+  accountId: string,
+  command: PlayerCommand
+): Promise<Response> {
+  try {
+    const playerRequest = buildPlayerRequest(command, body);
+    if ('error' in playerRequest) {
+      return addCorsHeaders(jsonError('INVALID_REQUEST', playerRequest.error, 400));
+    }
+
+    const response = await spotifyFetch(
+      playerRequest.path,
+      { method: playerRequest.method, body: playerRequest.body },
+      env,
+      accountId
+    );
+
+    if (!response.ok) {
+      return spotifyErrorResponse(response);
+    }
+
+    return addCorsHeaders(jsonSuccess({ success: true, message: playerRequest.message }));
+  } catch (error) {
+    if (error instanceof ReconnectRequiredError) {
+      return failureResponse(accessRevoked(env));
+    }
+    console.error(`Error running player command ${command}:`, error);
+    return addCorsHeaders(
+      jsonError('INTERNAL_ERROR', `Failed to run player command ${command}`, 500)
+    );
+  }
+}
+
+/**
+ * GET /api/transfers/:id
+ * Returns the status of a background transfer job
+ */
+async function handleGetTransferJob(env: Env, accountId: string, id: string): Promise<Response> {
+  try {
+    const job = await readTransferJob(env, accountId, id);
+    if (!job) {
+      return addCorsHeaders(
+        jsonError(
+          'TRANSFER_NOT_FOUND',
+          'No transfer job with that id. Jobs expire after a day.',
+          404
+        )
+      );
+    }
+
+    return addCorsHeaders(jsonSuccess({ job }));
+  } catch (error) {
+    console.error('Error reading transfer job:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to read transfer job', 500));
+  }
+}
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * Parse the /api/history query: device, status (succeeded|failed), since and until
+ * (Unix seconds) and limit
+ */
+function parseHistoryFilter(url: URL): TransferHistoryFilter | { error: string } {
+  const params = url.searchParams;
+
+  const status = params.get('status');
+  if (status !== null && status !== 'succeeded' && status !== 'failed') {
+    return { error: 'status must be succeeded or failed' };
+  }
+
+  const timestamps: Record<'since' | 'until', number | null> = { since: null, until: null };
+  for (const name of ['since', 'until'] as const) {
+    const value = params.get(name);
+    if (value === null) {
+      continue;
+    }
+    const timestamp = Number(value);
+    if (value.trim() === '' || !Number.isInteger(timestamp) || timestamp < 0) {
+      return { error: `${name} must be a Unix timestamp in seconds` };
+    }
+    timestamps[name] = timestamp;
+  }
+
+  const limitParam = params.get('limit');
+  const limit = limitParam === null ? DEFAULT_HISTORY_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    return { error: 'limit must be a positive integer' };
+  }
+
+  return {
+    device: params.get('device') || null,
+    status: status === null ? null : status === 'succeeded' ? 'SUCCEEDED' : 'FAILED',
+    since: timestamps.since,
+    until: timestamps.until,
+    limit,
+  };
+}
+
+/**
+ * GET /api/history
+ * Returns recorded transfers, newest first, optionally filtered by device, outcome
+ * and time range
+ */
+async function handleGetHistory(env: Env, accountId: string, url: URL): Promise<Response> {
+  const filter = parseHistoryFilter(url);
+  if ('error' in filter) {
+    return addCorsHeaders(jsonError('INVALID_REQUEST', filter.error, 400));
+  }
+
+  try {
+    const transfers = filterTransferHistory(await readTransferHistory(env, accountId), filter);
+    return addCorsHeaders(jsonSuccess({ transfers }));
+  } catch (error) {
+    console.error('Error reading transfer history:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to read transfer history', 500));
+  }
+}
+
+/**
+ * Run one scheduled action and describe its outcome
+ */
+async function runSchedule(env: Env, accountId: string, schedule: Schedule): Promise<ScheduleRun> {
+  const at = Math.floor(Date.now() / 1000);
+  const failed = (failure: ApiFailure, deviceId: string | null): ScheduleRun => ({
+    at,
+    status: 'FAILED',
+    code: failure.code,
+    message: failure.message,
+    deviceId,
+  });
+
+  try {
+    const accessToken = await getAccessToken(env, accountId);
+    if (!accessToken) {
+      return failed(
+        {
+          code: 'NOT_AUTHENTICATED',
+          message: 'Not connected or token refresh failed. Visit /login to reconnect.',
+          status: 401,
+        },
+        null
+      );
+    }
+
+    let device: TransferDevice | null = schedule.deviceId
+      ? {
+          id: schedule.deviceId,
+          name: null,
+          defaultVolume: deviceDefaultVolume(
+            await readDeviceVolumes(env, accountId),
+            schedule.deviceId
+          ),
+        }
+      : null;
+
+    if (schedule.target) {
+      const resolved = await resolveTargetDevice(env, accountId, schedule.target);
+      if ('failure' in resolved) {
+        return failed(resolved.failure, null);
+      }
+      device = resolved.device;
+    }
+
+    let response: Response;
+    let message: string;
+
+    if (schedule.action === 'transfer') {
+      if (!device) {
+        return failed(
+          { code: 'INVALID_REQUEST', message: 'No device to transfer to', status: 400 },
+          null
+        );
+      }
+
+      const play = schedule.params.play !== false;
+      const caller = `schedule: ${schedule.name ?? schedule.id}`;
+      const sourceDevice = await findActiveDevice(env, accountId);
+      const origin: TransferOrigin = {
+        caller,
+        sourceDevice: sourceDevice && { id: sourceDevice.id, name: sourceDevice.name },
+        startedAt: Date.now(),
+        callbackUrl: null,
+        fallbackContent: null,
+        startedFresh: false,
+        volume: null,
+        sourceVolume: sourceDevice?.volume_percent ?? null,
+      };
+      let attempts = 1;
+      response = await retryTransfer(transferRequest(env, accountId, device.id, play, origin), {
+        onAttempt: async (attempt) => {
+          attempts = attempt;
+        },
+      });
+      message = `Playback transferred to ${device.name ?? device.id}`;
+      if (response.ok) {
+        // Only a stored default volume applies; the outcome is logged, not recorded
+        const volume = await applyTransferVolume(env, accountId, device, origin);
+        if (volume && volume.status !== 'set') {
+          console.warn(`Schedule ${schedule.id} could not set the volume:`, volume);
+        }
+        await rememberSourceDevice(env, accountId, origin, device);
+      }
+
+      const failure = response.ok ? null : await classifySpotifyFailure(response.clone());
+      await recordTransferOutcome(
+        env,
+        accountId,
+        {
+          deviceId: schedule.deviceId,
+          target: schedule.target,
+          caller,
+          callbackUrl: null,
+          fallbackContent: null,
+          volume: null,
+        },
+        origin,
+        device,
+        attempts,
+        failure
+      );
+    } else {
+      const playerRequest = buildPlayerRequest(schedule.action, {
+        ...schedule.params,
+        deviceId: device?.id,
+      });
+      if ('error' in playerRequest) {
+        return failed(
+          { code: 'INVALID_REQUEST', message: playerRequest.error, status: 400 },
+          device?.id ?? null
+        );
+      }
+
+      response = await spotifyFetch(
+        playerRequest.path,
+        { method: playerRequest.method, body: playerRequest.body },
+        env,
+        accountId
+      );
+      message = playerRequest.message;
+    }
+
+    if (!response.ok) {
+      return failed(await classifySpotifyFailure(response), device?.id ?? null);
+    }
+
+    return { at, status: 'SUCCEEDED', code: null, message, deviceId: device?.id ?? null };
+  } catch (error) {
+    console.error(`Error running schedule ${schedule.id}:`, error);
+    if (error instanceof TokenDecryptionError) {
+      return failed(tokenDecryptionFailed(), null);
+    }
+    return failed(
+      { code: 'INTERNAL_ERROR', message: 'Failed to run scheduled action', status: 500 },
+      null
+    );
+  }
+}
+
+/**
+ * Cron trigger handler
+ * Runs every account's schedules that are due this minute and records their outcomes
+ */
+async function handleScheduled(controller: ScheduledController, env: Env): Promise<void> {
+  const now = new Date(controller.scheduledTime);
+  const accountIds = await listScheduleAccountIds(env);
+
+  for (const accountId of accountIds) {
+    try {
+      const schedules = await readSchedules(env, accountId);
+      const due = schedules.filter((schedule) => isScheduleDue(schedule, now));
+      if (due.length === 0) {
+        continue;
+      }
+
+      const runs = new Map<string, ScheduleRun>();
+      for (const schedule of due) {
+        const run = await runSchedule(env, accountId, schedule);
+        if (run.status === 'FAILED') {
+          console.error(`Schedule ${schedule.id} (${schedule.action}) failed: ${run.message}`);
+        }
+        runs.set(schedule.id, run);
+      }
+
+      await recordScheduleRuns(env, accountId, runs);
+    } catch (error) {
+      console.error(`Error running schedules for account ${accountId}:`, error);
+    }
+  }
+}
+
+/**
+ * GET /api/schedules
+ */
+async function handleListSchedules(env: Env, accountId: string): Promise<Response> {
+  try {
+    const schedules = await readSchedules(env, accountId);
+    return addCorsHeaders(jsonSuccess({ schedules }));
+  } catch (error) {
+    console.error('Error listing schedules:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to list schedules', 500));
+  }
+}
+
+/**
+ * GET /api/schedules/:id
+ */
+async function handleGetSchedule(env: Env, accountId: string, id: string): Promise<Response> {
+  try {
+    const schedule = (await readSchedules(env, accountId)).find((s) => s.id === id);
+    if (!schedule) {
+      return addCorsHeaders(jsonError('SCHEDULE_NOT_FOUND', 'No schedule with that id.', 404));
+    }
+    return addCorsHeaders(jsonSuccess({ schedule }));
+  } catch (error) {
+    console.error('Error reading schedule:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to read schedule', 500));
+  }
+}
+
+/**
+ * POST /api/schedules (create) and PUT /api/schedules/:id (replace)
+ * Body: { time, action, days?, timezone?, deviceId? | target?, params?, name?, enabled? }
+ */
+async function handleSaveSchedule(
+  body: Record<string, unknown>,
+  env: Env,
+  accountId: string,
+  id: string | null
+): Promise<Response> {
+  try {
+    const input = parseScheduleInput(body);
+    if ('error' in input) {
+      return addCorsHeaders(jsonError('INVALID_REQUEST', input.error, 400));
+    }
+
+    // Check player command parameters now rather than at run time
+    if (input.action !== 'transfer') {
+      const playerRequest = buildPlayerRequest(input.action, {
+        ...input.params,
+        deviceId: input.deviceId ?? undefined,
+      });
+      if ('error' in playerRequest) {
+        return addCorsHeaders(jsonError('INVALID_REQUEST', playerRequest.error, 400));
+      }
+    }
+
+    const schedules = await readSchedules(env, accountId);
+    const now = Math.floor(Date.now() / 1000);
+    let schedule: Schedule;
+
+    if (id === null) {
+      schedule = {
+        ...input,
+        id: crypto.randomUUID(),
+        lastRun: null,
+        created_at: now,
+        updated_at: now,
+      };
+      schedules.push(schedule);
+    } else {
+      const index = schedules.findIndex((s) => s.id === id);
+      if (index === -1) {
+        return addCorsHeaders(jsonError('SCHEDULE_NOT_FOUND', 'No schedule with that id.', 404));
+      }
+      schedule = { ...schedules[index], ...input, updated_at: now };
+      schedules[index] = schedule;
+    }
+
+    await writeSchedules(env, accountId, schedules);
+    return addCorsHeaders(jsonSuccess({ success: true, schedule }, id === null ? 201 : 200));
+  } catch (error) {
+    console.error('Error saving schedule:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to save schedule', 500));
+  }
+}
+
+/**
+ * DELETE /api/schedules/:id
+ */
+async function handleDeleteSchedule(env: Env, accountId: string, id: string): Promise<Response> {
+  try {
+    const schedules = await readSchedules(env, accountId);
+    const remaining = schedules.filter((s) => s.id !== id);
+
+    if (remaining.length === schedules.length) {
+      return addCorsHeaders(jsonError('SCHEDULE_NOT_FOUND', 'No schedule with that id.', 404));
+    }
+
+    await writeSchedules(env, accountId, remaining);
+    return addCorsHeaders(jsonSuccess({ success: true }));
+  } catch (error) {
+    console.error('Error deleting schedule:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to delete schedule', 500));
+  }
+}
+
+/**
+ * GET /api/targets
+ * Lists the account's transfer targets, including built-in ones, with a warning for each
+ * stored target whose name is now reserved
+ */
+async function handleListTargets(env: Env, accountId: string): Promise<Response> {
+  try {
+    const targets = await listTargets(env, accountId);
+    const warnings = shadowedTargets(targets).map(
+      (target) =>
+        `Target "${target.name}" cannot be reached at /api/transfer/${target.name}, which is ` +
+        'taken by another route. Save its rules under a new name and delete it.'
+    );
+    return addCorsHeaders(jsonSuccess({ targets, ...(warnings.length > 0 && { warnings }) }));
+  } catch (error) {
+    console.error('Error listing targets:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to list targets', 500));
+  }
+}
+
+/**
+ * GET /api/targets/:name
+ */
+async function handleGetTarget(env: Env, accountId: string, name: string): Promise<Response> {
+  try {
+    const target = await findTarget(env, accountId, name);
+    if (!target) {
+      return addCorsHeaders(
+        jsonError('TARGET_NOT_FOUND', `No transfer target named "${name}".`, 404)
+      );
+    }
+    return addCorsHeaders(jsonSuccess({ target }));
+  } catch (error) {
+    console.error('Error reading target:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to read target', 500));
+  }
+}
+
+/**
+ * POST /api/targets (create) and PUT /api/targets/:name (create or replace)
+ * Body: { name: string, rules: TargetRules, volume?: number } - name comes from the path for PUT
+ */
+async function handleSaveTarget(
+  body: TargetBody,
+  env: Env,
+  accountId: string,
+  pathName: string | null
+): Promise<Response> {
+  try {
+    const name = pathName ?? body.name;
+
+    if (!isValidTargetName(name)) {
+      return addCorsHeaders(
+        jsonError(
+          'INVALID_REQUEST',
+          'name must be 1-32 lowercase letters, digits, "-" or "_", starting with a letter or digit',
+          400
+        )
+      );
+    }
+    if (RESERVED_TARGET_NAMES.includes(name)) {
+      return addCorsHeaders(
+        jsonError('INVALID_REQUEST', `"${name}" is reserved and cannot be a target name`, 400)
+      );
+    }
+
+    const rulesError = validateTargetRules(body.rules);
+    if (rulesError) {
+      return addCorsHeaders(jsonError('INVALID_REQUEST', rulesError, 400));
+    }
+
+    const stored = await readStoredTargets(env, accountId);
+    const existingIndex = stored.findIndex((target) => target.name === name);
+
+    if (pathName === null && existingIndex !== -1) {
+      return addCorsHeaders(
+        jsonError('TARGET_EXISTS', `A transfer target named "${name}" already exists.`, 409)
+      );
+    }
+
+    const target: Target = {
+      name,
+      rules: body.rules as TargetRules,
+      ...(body.volume !== undefined && { volume: body.volume }),
+    };
+    if (existingIndex === -1) {
+      stored.push(target);
+    } else {
+      stored[existingIndex] = target;
+    }
+    await writeStoredTargets(env, accountId, stored);
+
+    return addCorsHeaders(jsonSuccess({ success: true, target }, existingIndex === -1 ? 201 : 200));
+  } catch (error) {
+    console.error('Error saving target:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to save target', 500));
+  }
+}
+
+/**
+ * DELETE /api/targets/:name
+ * Deleting an override of a built-in target restores the built-in definition
+ */
+async function handleDeleteTarget(env: Env, accountId: string, name: string): Promise<Response> {
+  try {
+    const stored = await readStoredTargets(env, accountId);
+    const remaining = stored.filter((target) => target.name !== name);
+
+    if (remaining.length === stored.length) {
+      return addCorsHeaders(
+        jsonError('TARGET_NOT_FOUND', `No stored transfer target named "${name}".`, 404)
+      );
+    }
+
+    await writeStoredTargets(env, accountId, remaining);
+    return addCorsHeaders(jsonSuccess({ success: true }));
+  } catch (error) {
+    console.error('Error deleting target:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to delete target', 500));
+  }
+}
+
+/**
+ * GET /api/keys
+ * Lists the account's API keys (never the keys themselves)
+ */
+async function handleListApiKeys(env: Env, accountId: string): Promise<Response> {
+  try {
+    const keys = await listApiKeys(env, accountId);
+    return addCorsHeaders(jsonSuccess({ success: true, keys: keys.map(describeApiKey) }));
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to list API keys', 500));
+  }
+}
+
+/**
+ * POST /api/keys
+ * Issues a new API key; the plain key is only returned in this response
+ */
+async function handleIssueApiKey(
+  body: Record<string, unknown>,
+  env: Env,
+  accountId: string
+): Promise<Response> {
+  try {
+    const account = await readAccount(env, accountId);
+    if (!account) {
+      return addCorsHeaders(
+        jsonError('NOT_AUTHENTICATED', 'Not connected. Visit /login to connect your Spotify account.', 401)
+      );
+    }
+
+    const input = parseApiKeyInput(body);
+    if ('error' in input) {
+      return addCorsHeaders(jsonError('INVALID_REQUEST', input.error, 400));
+    }
+
+    const { key, record } = await issueApiKey(env, accountId, input);
+    return addCorsHeaders(
+      jsonSuccess({ success: true, automationKey: key, key: describeApiKey(record) }, 201)
+    );
+  } catch (error) {
+    console.error('Error issuing API key:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to issue API key', 500));
+  }
+}
+
+/**
+ * DELETE /api/keys/:id
+ */
+async function handleRevokeApiKey(env: Env, accountId: string, id: string): Promise<Response> {
+  try {
+    const revoked = await revokeApiKey(env, accountId, id);
+    if (!revoked) {
+      return addCorsHeaders(jsonError('KEY_NOT_FOUND', 'No API key with that id.', 404));
+    }
+    return addCorsHeaders(jsonSuccess({ success: true, key: describeApiKey(revoked) }));
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to revoke API key', 500));
+  }
+}
+
+/**
+ * Check that the caller's key grants the scope a route requires
+ */
+function requireScope(scopes: ApiScope[], scope: ApiScope): Response | null {
+  if (hasScope(scopes, scope)) {
+    return null;
+  }
+  return addCorsHeaders(
+    jsonError('INSUFFICIENT_SCOPE', `This API key does not have the "${scope}" scope.`, 403)
+  );
+}
+
+/**
+ * 429 response in the usual error shape, with a Retry-After header
+ */
+function rateLimitedResponse(code: string, message: string, retryAfter: number): Response {
+  const response = addCorsHeaders(jsonError(code, message, 429));
+  response.headers.set('Retry-After', String(retryAfter));
+  return response;
+}
+
+function clientIp(request: Request): string {
+  return request.headers.get('CF-Connecting-IP') ?? 'unknown';
+}
+
+/**
+ * Apply the lockout and per-IP limit, before the automation key is even looked at
+ */
+async function checkClientLimits(
+  request: Request,
+  env: Env,
+  config: RateLimitConfig
+): Promise<Response | null> {
+  const ip = clientIp(request);
+
+  const lockout = await checkLockout(env, ip);
+  if (!lockout.allowed) {
+    return rateLimitedResponse(
+      'LOCKED_OUT',
+      `Too many invalid automation keys. Try again in ${lockout.retryAfter} seconds.`,
+      lockout.retryAfter
+    );
+  }
+
+  if (config.perIp) {
+    const result = await hitRateLimit(env, `ip:${ip}`, config.perIp);
+    if (!result.allowed) {
+      return rateLimitedResponse(
+        'RATE_LIMITED',
+        `Too many requests. Try again in ${result.retryAfter} seconds.`,
+        result.retryAfter
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply the per-key limit; the admin key counts as one key across accounts
+ */
+async function checkKeyLimit(
+  env: Env,
+  keyId: string | null,
+  config: RateLimitConfig
+): Promise<Response | null> {
+  if (!config.perKey) {
+    return null;
+  }
+
+  const result = await hitRateLimit(env, `key:${keyId ?? 'admin'}`, config.perKey);
+  if (result.allowed) {
+    return null;
+  }
+
+  return rateLimitedResponse(
+    'RATE_LIMITED',
+    `Too many requests for this API key. Try again in ${result.retryAfter} seconds.`,
+    result.retryAfter
+  );
+}
+
+/**
+ * Resolve who is viewing the status page: an automation key header (for scripts) or
+ * a session cookie. Sessions come from signing in with Spotify, so they have every scope.
+ */
+async function resolveStatusViewer(
+  request: Request,
+  env: Env
+): Promise<{ accountId: string; scopes: ApiScope[]; label: string } | null> {
+  if (request.headers.get('X-Automation-Key')) {
+    const caller = await resolveCaller(request, env);
+    if (!caller.ok) {
+      if (caller.code === 'INVALID_AUTOMATION_KEY') {
+        await recordInvalidKey(env, clientIp(request), getRateLimitConfig(env));
+      }
+      return null;
+    }
+    return { accountId: caller.accountId, scopes: caller.scopes, label: caller.label };
+  }
+
+  const sessionId = getSessionCookie(request);
+  const session = sessionId ? await readSession(env, sessionId) : null;
+  return session
+    ? { accountId: session.accountId, scopes: [...API_SCOPES], label: 'status page' }
+    : null;
+}
+
+function htmlResponse(html: string, status: number = 200): Response {
+  return new Response(html, {
+    status,
+    headers: { 'Content-Type': 'text/html', 'Cache-Control': 'no-store' },
+  });
+}
+
+/**
+ * GET /status
+ * Server-rendered overview: account, token expiry, devices with transfer buttons and
+ * recent transfers
+ */
+async function handleStatus(request: Request, env: Env, url: URL): Promise<Response> {
+  const viewer = await resolveStatusViewer(request, env);
+  if (!viewer || !hasScope(viewer.scopes, 'devices:read')) {
+    return htmlResponse(renderStatusSignIn(), viewer ? 403 : 401);
+  }
+  const { accountId, scopes } = viewer;
+
+  try {
+    let devices: SpotifyDevice[] | null = null;
+    let devicesError: string | null = null;
+
+    // Fetch devices first: it refreshes the access token if needed, so the token
+    // details shown below are current
+    if (await getAccessToken(env, accountId)) {
+      try {
+        const result = await fetchDevices(env, accountId);
+        if ('failure' in result) {
+          devicesError = result.failure.message;
+        } else {
+          devices = result.devices;
+        }
+      } catch (error) {
+        console.error('Error fetching devices for status page:', error);
+        devicesError = 'Failed to fetch devices';
+      }
+    } else {
+      devicesError = 'Not connected or token refresh failed. Visit /login to reconnect.';
+    }
+
+    const [account, tokens, history] = await Promise.all([
+      readAccount(env, accountId),
+      getStoredTokens(env, accountId),
+      readTransferHistory(env, accountId),
+    ]);
+
+    const notice = url.searchParams.get('notice');
+    return htmlResponse(
+      renderStatusPage({
+        accountId,
+        account,
+        tokens,
+        devices,
+        devicesError,
+        history,
+        canTransfer: hasScope(scopes, 'transfer'),
+        notice: notice ? { ok: url.searchParams.get('ok') === '1', message: notice } : null,
+      })
+    );
+  } catch (error) {
+    console.error('Error rendering status page:', error);
+    if (error instanceof TokenDecryptionError) {
+      const { message } = tokenDecryptionFailed();
+      return htmlResponse(
+        `<html><body><h1>Error</h1><p>${escapeHtml(message)}</p></body></html>`,
+        500
+      );
+    }
+    return htmlResponse(
+      '<html><body><h1>Error</h1><p>Failed to load status.</p></body></html>',
+      500
+    );
+  }
+}
+
+/**
+ * POST /status/transfer
+ * Handles the status page's transfer buttons (form field: deviceId), then redirects
+ * back to /status with the outcome
+ */
+async function handleStatusTransfer(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  const viewer = await resolveStatusViewer(request, env);
+  if (!viewer || !hasScope(viewer.scopes, 'transfer')) {
+    return htmlResponse(renderStatusSignIn(), viewer ? 403 : 401);
+  }
+  const { accountId, label } = viewer;
+
+  const redirect = (ok: boolean, message: string) => {
+    const params = new URLSearchParams({ ok: ok ? '1' : '0', notice: message });
+    return new Response(null, { status: 303, headers: { Location: `/status?${params}` } });
+  };
+
+  try {
+    const form = await request.formData();
+    const deviceId = form.get('deviceId');
+    if (typeof deviceId !== 'string' || deviceId === '') {
+      return redirect(false, 'No device selected.');
+    }
+
+    const defaultVolume = deviceDefaultVolume(await readDeviceVolumes(env, accountId), deviceId);
+    const result = await resolveAndTransfer(
+      env,
+      ctx,
+      accountId,
+      (waitMs) => resolveDeviceById(env, accountId, deviceId, waitMs, defaultVolume),
+      {
+        deviceId,
+        target: null,
+        caller: label,
+        callbackUrl: null,
+        fallbackContent: null,
+        volume: null,
+      },
+      true,
+      { asyncTransfer: false, asyncRequested: false, verify: null, waitForDeviceMs: 0 }
+    );
+
+    if ('failure' in result) {
+      return redirect(false, result.failure.message);
+    }
+    if ('job' in result) {
+      return redirect(true, 'Transfer in progress.');
+    }
+    if (!result.response.ok) {
+      return redirect(false, (await classifySpotifyFailure(result.response)).message);
+    }
+
+    return redirect(true, `Playback transferred to ${result.device.name ?? deviceId}.`);
+  } catch (error) {
+    console.error('Error transferring from status page:', error);
+    return redirect(false, 'Failed to transfer playback.');
+  }
+}
+
+/**
+ * The worker's /login URL, built from BASE_URL
+ */
+function loginUrl(env: Env): string {
+  return `${(env.BASE_URL ?? '').replace(/\/+$/, '')}/login`;
+}
+
+/**
+ * RECONNECT_REQUIRED failure, pointing at the worker's /login URL
+ */
+function reconnectRequired(env: Env, message: string): ApiFailure {
+  return { code: 'RECONNECT_REQUIRED', message, status: 401, loginUrl: loginUrl(env) };
+}
+
+/**
+ * RECONNECT_REQUIRED failure for a refresh token Spotify rejected (`invalid_grant`)
+ */
+function accessRevoked(env: Env): ApiFailure {
+  return reconnectRequired(env, 'Spotify access was revoked. Visit /login to reconnect.');
+}
+
+/**
+ * TOKEN_DECRYPTION_FAILED failure: the account's tokens are stored, but the configured
+ * encryption keys cannot open them. They are kept, so fixing the keys is enough.
+ */
+function tokenDecryptionFailed(): ApiFailure {
+  return {
+    code: 'TOKEN_DECRYPTION_FAILED',
+    message:
+      'The stored Spotify tokens cannot be decrypted with the configured keys. Restore the ' +
+      'previous TOKEN_ENCRYPTION_KEY or add it to TOKEN_ENCRYPTION_KEYS_PREVIOUS.',
+    status: 500,
+  };
+}
+
+/**
+ * POST /api/disconnect
+ * Deletes the account's stored Spotify tokens. API keys, targets and schedules are
+ * kept, so logging in again restores everything.
+ */
+async function handleDisconnect(env: Env, accountId: string): Promise<Response> {
+  try {
+    await deleteTokens(env, accountId);
+    return addCorsHeaders(
+      jsonSuccess({ success: true, message: 'Spotify disconnected', loginUrl: loginUrl(env) })
+    );
+  } catch (error) {
+    console.error('Error disconnecting account:', error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Failed to disconnect', 500));
+  }
+}
+
+/**
+ * Check if user is authenticated (has tokens)
+ */
+async function requireAuth(env: Env, accountId: string): Promise<Response | null> {
+  try {
+    return await checkAuth(env, accountId);
+  } catch (error) {
+    // Not a reason to reconnect: logging in again would replace tokens that still work
+    if (error instanceof TokenDecryptionError) {
+      return failureResponse(tokenDecryptionFailed());
+    }
+    throw error;
+  }
+}
+
+async function checkAuth(env: Env, accountId: string): Promise<Response | null> {
+  const tokens = await getStoredTokens(env, accountId);
+
+  if (!tokens) {
+    // A known account without tokens was disconnected, or Spotify revoked its tokens
+    if (await readAccount(env, accountId)) {
+      return failureResponse(
+        reconnectRequired(env, 'Spotify is disconnected. Visit /login to reconnect.')
+      );
+    }
+    return addCorsHeaders(
+      jsonError('NOT_AUTHENTICATED', 'Not connected. Visit /login to connect your Spotify account.', 401)
+    );
+  }
+
+  // Ensure we have a valid access token
+  const accessToken = await getAccessToken(env, accountId);
+
+  if (!accessToken) {
+    // The tokens are cleared when Spotify rejected the refresh token (invalid_grant)
+    if (!(await getStoredTokens(env, accountId))) {
+      return failureResponse(accessRevoked(env));
+    }
+    return addCorsHeaders(
+      jsonError(
+        'TOKEN_REFRESH_FAILED',
+        'Failed to refresh access token. Please visit /login to reconnect.',
+        401
+      )
+    );
+  }
+
+  return null; // Auth successful
+}
+
+/**
+ * Context passed to every route handler
+ */
+interface RequestContext {
+  request: Request;
+  env: Env;
+  ctx: ExecutionContext;
+  url: URL;
+  params: Record<string, string>; // Decoded path parameters
+}
+
+/**
+ * Context for API routes: the caller behind the automation key and the validated body
+ */
+interface ApiContext extends RequestContext {
+  accountId: string;
+  scopes: ApiScope[];
+  label: string;
+  body: unknown; // Matches the route's body schema; {} for routes without a body
+}
+
+type PublicRoute = Route<RequestContext>;
+
+interface ApiRoute extends Route<ApiContext> {
+  scope: ApiScope;
+  spotify: boolean; // Calls Spotify, so needs valid tokens; routes that only use KV do not
+}
+
+const STRING: JsonSchema = { type: 'string' };
+const NUMBER: JsonSchema = { type: 'number' };
+
+const TRANSFER_MODE_QUERY: Record<string, ParameterSpec> = {
+  async: { description: '0 to retry inline instead of in the background', schema: STRING },
+  verify: { description: '1 to confirm the transfer took effect', schema: STRING },
+  verifyTimeout: { description: 'Seconds to wait for confirmation', schema: NUMBER },
+  waitForDevice: { description: 'Seconds to wait for a sleeping device', schema: NUMBER },
+};
+
+const TRANSFER_RESPONSES: Record<number, ResponseSpec> = {
+  200: { description: 'Playback transferred', schema: TRANSFER_RESPONSE },
+  202: { description: 'Transfer continues in the background', schema: TRANSFER_ACCEPTED_RESPONSE },
+  400: { description: 'Invalid request body', schema: ERROR_RESPONSE },
+  404: { description: 'Device not found', schema: ERROR_RESPONSE },
+};
+
+function errors(description: string, ...statuses: number[]): Record<number, ResponseSpec> {
+  return Object.fromEntries(
+    statuses.map((status) => [status, { description, schema: ERROR_RESPONSE }])
+  );
+}
+
+const PUBLIC_ROUTES: PublicRoute[] = [
+  {
+    method: 'GET',
+    path: '/health',
+    operationId: 'getHealth',
+    summary: 'Health check',
+    description:
+      'With ?deep=1 and an admin key, checks configuration, KV, tokens and Spotify instead.',
+    query: { deep: { description: '1 for the deep check', schema: STRING } },
+    responses: {
+      200: {
+        description: 'Healthy; the deep check reports ok or degraded in `status`',
+        schema: HEALTH_RESPONSE,
+      },
+      503: { description: 'Deep check: down', schema: DEEP_HEALTH_RESPONSE },
+    },
+    handler: ({ request, env, url }) => {
+      const deep = url.searchParams.get('deep');
+      return deep === '1' || deep === 'true' ? handleDeepHealth(request, env) : handleHealth();
+    },
+  },
+  {
+    method: 'GET',
+    path: '/openapi.json',
+    operationId: 'getOpenApiDocument',
+    summary: 'This OpenAPI document',
+    responses: { 200: { description: 'OpenAPI 3.0 document', schema: { type: 'object' } } },
+    handler: ({ env }) => handleOpenApi(env),
+  },
+  {
+    method: 'GET',
+    path: '/login',
+    operationId: 'login',
+    summary: 'Start connecting a Spotify account',
+    responses: { 302: { description: 'Redirect to Spotify authorization' } },
+    handler: ({ request, env }) => handleLogin(request, env),
+  },
+  {
+    method: 'GET',
+    path: '/callback',
+    operationId: 'callback',
+    summary: 'Spotify OAuth callback',
+    query: {
+      code: { description: 'Authorization code', schema: STRING },
+      state: { description: 'OAuth state', schema: STRING },
+      error: { description: 'Set when authorization was denied', schema: STRING },
+    },
+    responses: {
+      200: { description: 'Connected; shows the owner API key', contentType: 'text/html' },
+      400: { description: 'Authorization failed', contentType: 'text/html' },
+    },
+    handler: ({ request, env }) => handleCallback(request, env),
+  },
+  {
+    method: 'GET',
+    path: '/status',
+    operationId: 'getStatusPage',
+    summary: 'Status page (automation key or sign-in)',
+    responses: {
+      200: { description: 'Status page', contentType: 'text/html' },
+      401: { description: 'Sign-in form', contentType: 'text/html' },
+    },
+    handler: ({ request, env, url }) => handleStatus(request, env, url),
+  },
+  {
+    method: 'POST',
+    path: '/status/transfer',
+    operationId: 'statusTransfer',
+    summary: 'Transfer button on the status page (form post)',
+    responses: { 303: { description: 'Back to the status page with a notice' } },
+    handler: ({ request, env, ctx }) => handleStatusTransfer(request, env, ctx),
+  },
+];
+
+const API_ROUTES: ApiRoute[] = [
+  {
+    method: 'GET',
+    path: '/api/keys',
+    operationId: 'listApiKeys',
+    summary: 'List API keys',
+    scope: 'admin',
+    spotify: false,
+    responses: { 200: { description: 'API keys', schema: API_KEYS_RESPONSE } },
+    handler: ({ env, accountId }) => handleListApiKeys(env, accountId),
+  },
+  {
+    method: 'POST',
+    path: '/api/keys',
+    operationId: 'issueApiKey',
+    summary: 'Issue an API key',
+    scope: 'admin',
+    spotify: false,
+    body: { schema: API_KEY_BODY, required: true },
+    responses: {
+      201: { description: 'Issued', schema: ISSUED_API_KEY_RESPONSE },
+      ...errors('Invalid request body', 400),
+    },
+    handler: ({ body, env, accountId }) =>
+      handleIssueApiKey(body as Record<string, unknown>, env, accountId),
+  },
+  {
+    method: 'DELETE',
+    path: '/api/keys/:id',
+    operationId: 'revokeApiKey',
+    summary: 'Revoke an API key',
+    scope: 'admin',
+    spotify: false,
+    params: { id: { description: 'API key id', schema: STRING } },
+    responses: {
+      200: { description: 'Revoked', schema: API_KEY_RESPONSE },
+      ...errors('No API key with that id', 404),
+    },
+    handler: ({ params, env, accountId }) => handleRevokeApiKey(env, accountId, params.id),
+  },
+  {
+    method: 'GET',
+    path: '/api/history',
+    operationId: 'getHistory',
+    summary: 'Recent transfers, newest first',
+    scope: 'transfer',
+    spotify: false,
+    query: {
+      device: { description: 'Source or destination device id or name, or target', schema: STRING },
+      status: { description: 'Outcome', schema: { type: 'string', enum: ['succeeded', 'failed'] } },
+      since: { description: 'Unix timestamp in seconds, inclusive', schema: { type: 'integer' } },
+      until: { description: 'Unix timestamp in seconds, inclusive', schema: { type: 'integer' } },
+      limit: { description: `Default ${DEFAULT_HISTORY_LIMIT}`, schema: { type: 'integer' } },
+    },
+    responses: {
+      200: { description: 'Transfers', schema: HISTORY_RESPONSE },
+      ...errors('Invalid query parameter', 400),
+    },
+    handler: ({ env, accountId, url }) => handleGetHistory(env, accountId, url),
+  },
+  {
+    method: 'POST',
+    path: '/api/disconnect',
+    operationId: 'disconnect',
+    summary: 'Disconnect Spotify and delete stored tokens',
+    scope: 'admin',
+    spotify: false,
+    responses: { 200: { description: 'Disconnected', schema: DISCONNECTED_RESPONSE } },
+    handler: ({ env, accountId }) => handleDisconnect(env, accountId),
+  },
+  {
+    method: 'GET',
+    path: '/api/devices',
+    operationId: 'listDevices',
+    summary: 'List Spotify Connect devices',
+    scope: 'devices:read',
+    spotify: true,
+    responses: { 200: { description: 'Devices', schema: DEVICES_RESPONSE } },
+    handler: ({ env, accountId }) => handleGetDevices(env, accountId),
+  },
+  {
+    method: 'GET',
+    path: '/api/devices/volumes',
+    operationId: 'listDeviceVolumes',
+    summary: 'List the default volumes stored per device',
+    scope: 'devices:read',
+    spotify: false,
+    responses: { 200: { description: 'Volumes', schema: DEVICE_VOLUMES_RESPONSE } },
+    handler: ({ env, accountId }) => handleListDeviceVolumes(env, accountId),
+  },
+  {
+    method: 'PUT',
+    path: '/api/devices/:id/volume',
+    operationId: 'setDeviceVolume',
+    summary: "Store a device's default volume",
+    description: 'Set after transfers to the device by id and through fallback chain candidates.',
+    scope: 'admin',
+    spotify: false,
+    params: { id: { description: 'Spotify device id', schema: STRING } },
+    body: { schema: DEVICE_VOLUME_BODY, required: true },
+    responses: {
+      200: { description: 'Saved', schema: SAVED_DEVICE_VOLUME_RESPONSE },
+      ...errors('Invalid request body', 400),
+    },
+    handler: ({ body, params, env, accountId }) =>
+      handleSetDeviceVolume(body as DeviceVolumeBody, env, accountId, params.id),
+  },
+  {
+    method: 'DELETE',
+    path: '/api/devices/:id/volume',
+    operationId: 'deleteDeviceVolume',
+    summary: "Delete a device's default volume",
+    scope: 'admin',
+    spotify: false,
+    params: { id: { description: 'Spotify device id', schema: STRING } },
+    responses: {
+      200: { description: 'Deleted', schema: DELETED_RESPONSE },
+      ...errors('No default volume stored for that device', 404),
+    },
+    handler: ({ params, env, accountId }) => handleDeleteDeviceVolume(env, accountId, params.id),
+  },
+  {
+    method: 'POST',
+    path: '/api/transfer',
+    operationId: 'transfer',
+    summary: 'Transfer playback to a device',
+    scope: 'transfer',
+    spotify: true,
+    query: TRANSFER_MODE_QUERY,
+    body: { schema: TRANSFER_BODY, required: true },
+    responses: TRANSFER_RESPONSES,
+    handler: ({ body, env, ctx, accountId, label, url }) =>
+      handleTransfer(body as TransferBody, env, ctx, accountId, label, parseTransferMode(url)),
+  },
+  {
+    method: 'POST',
+    path: '/api/transfer/back',
+    operationId: 'transferBack',
+    summary: 'Transfer playback back to the previous device',
+    description: 'Calling it again toggles between the two most recent devices.',
+    scope: 'transfer',
+    spotify: true,
+    query: TRANSFER_MODE_QUERY,
+    body: { schema: TRANSFER_TARGET_BODY, required: false },
+    responses: TRANSFER_RESPONSES,
+    handler: ({ body, env, ctx, accountId, label, url }) =>
+      handleTransferBack(
+        body as TransferTargetBody,
+        env,
+        ctx,
+        accountId,
+        label,
+        parseTransferMode(url)
+      ),
+  },
+  {
+    method: 'POST',
+    path: '/api/transfer/:target',
+    operationId: 'transferToTarget',
+    summary: 'Transfer playback to the device matching a named target',
+    scope: 'transfer',
+    spotify: true,
+    params: { target: { description: 'Target name, e.g. "echo"', schema: STRING } },
+    query: TRANSFER_MODE_QUERY,
+    body: { schema: TRANSFER_TARGET_BODY, required: false },
+    responses: {
+      ...TRANSFER_RESPONSES,
+      ...errors('The target matched several devices', 409),
+    },
+    handler: ({ body, params, env, ctx, accountId, label, url }) =>
+      handleTransferTarget(
+        body as TransferTargetBody,
+        env,
+        ctx,
+        accountId,
+        params.target,
+        label,
+        parseTransferMode(url)
+      ),
+  },
+  {
+    method: 'GET',
+    path: '/api/transfers/:id',
+    operationId: 'getTransferJob',
+    summary: 'Status of a background transfer',
+    scope: 'transfer',
+    spotify: false,
+    params: { id: { description: 'Job id from a 202 response', schema: STRING } },
+    responses: {
+      200: { description: 'Job', schema: TRANSFER_JOB_RESPONSE },
+      ...errors('No job with that id', 404),
+    },
+    handler: ({ params, env, accountId }) => handleGetTransferJob(env, accountId, params.id),
+  },
+  {
+    method: 'GET',
+    path: '/api/player',
+    operationId: 'getPlayback',
+    summary: 'What is playing, and where',
+    scope: 'player:read',
+    spotify: true,
+    responses: { 200: { description: 'Playback state', schema: PLAYBACK_RESPONSE } },
+    handler: ({ env, accountId }) => handleGetPlayback(env, accountId),
+  },
+  {
+    method: 'POST',
+    path: '/api/player/:command',
+    operationId: 'playerCommand',
+    summary: 'Play, pause, skip, seek, or set volume, shuffle or repeat',
+    scope: 'player:control',
+    spotify: true,
+    params: {
+      command: { description: 'Player command', schema: { type: 'string', enum: PLAYER_COMMANDS } },
+    },
+    body: { schema: PLAYER_COMMAND_BODY, required: false },
+    responses: {
+      200: { description: 'Command sent', schema: MESSAGE_RESPONSE },
+      ...errors('Invalid request body', 400),
+    },
+    handler: ({ body, params, env, accountId }) =>
+      handlePlayerCommand(
+        body as Record<string, unknown>,
+        env,
+        accountId,
+        params.command as PlayerCommand
+      ),
+  },
+  {
+    method: 'GET',
+    path: '/api/schedules',
+    operationId: 'listSchedules',
+    summary: 'List scheduled actions',
+    scope: 'admin',
+    spotify: false,
+    responses: { 200: { description: 'Schedules', schema: SCHEDULES_RESPONSE } },
+    handler: ({ env, accountId }) => handleListSchedules(env, accountId),
+  },
+  {
+    method: 'POST',
+    path: '/api/schedules',
+    operationId: 'createSchedule',
+    summary: 'Create a scheduled action',
+    scope: 'admin',
+    spotify: false,
+    body: { schema: SCHEDULE_BODY, required: true },
+    responses: {
+      201: { description: 'Created', schema: SAVED_SCHEDULE_RESPONSE },
+      ...errors('Invalid request body', 400),
+    },
+    handler: ({ body, env, accountId }) =>
+      handleSaveSchedule(body as Record<string, unknown>, env, accountId, null),
+  },
+  {
+    method: 'GET',
+    path: '/api/schedules/:id',
+    operationId: 'getSchedule',
+    summary: 'Get a scheduled action',
+    scope: 'admin',
+    spotify: false,
+    params: { id: { description: 'Schedule id', schema: STRING } },
+    responses: {
+      200: { description: 'Schedule', schema: SCHEDULE_RESPONSE },
+      ...errors('No schedule with that id', 404),
+    },
+    handler: ({ params, env, accountId }) => handleGetSchedule(env, accountId, params.id),
+  },
+  {
+    method: 'PUT',
+    path: '/api/schedules/:id',
+    operationId: 'replaceSchedule',
+    summary: 'Replace a scheduled action',
+    scope: 'admin',
+    spotify: false,
+    params: { id: { description: 'Schedule id', schema: STRING } },
+    body: { schema: SCHEDULE_BODY, required: true },
+    responses: {
+      200: { description: 'Replaced', schema: SAVED_SCHEDULE_RESPONSE },
+      ...errors('Invalid request body', 400),
+      ...errors('No schedule with that id', 404),
+    },
+    handler: ({ body, params, env, accountId }) =>
+      handleSaveSchedule(body as Record<string, unknown>, env, accountId, params.id),
+  },
+  {
+    method: 'DELETE',
+    path: '/api/schedules/:id',
+    operationId: 'deleteSchedule',
+    summary: 'Delete a scheduled action',
+    scope: 'admin',
+    spotify: false,
+    params: { id: { description: 'Schedule id', schema: STRING } },
+    responses: {
+      200: { description: 'Deleted', schema: DELETED_RESPONSE },
+      ...errors('No schedule with that id', 404),
+    },
+    handler: ({ params, env, accountId }) => handleDeleteSchedule(env, accountId, params.id),
+  },
+  {
+    method: 'GET',
+    path: '/api/targets',
+    operationId: 'listTargets',
+    summary: 'List transfer targets, including built-in ones',
+    scope: 'devices:read',
+    spotify: false,
+    responses: { 200: { description: 'Targets', schema: TARGETS_RESPONSE } },
+    handler: ({ env, accountId }) => handleListTargets(env, accountId),
+  },
+  {
+    method: 'POST',
+    path: '/api/targets',
+    operationId: 'createTarget',
+    summary: 'Create a transfer target',
+    scope: 'admin',
+    spotify: false,
+    body: { schema: TARGET_CREATE_BODY, required: true },
+    responses: {
+      201: { description: 'Created', schema: SAVED_TARGET_RESPONSE },
+      ...errors('Invalid request body', 400),
+      ...errors('A target with that name exists', 409),
+    },
+    handler: ({ body, env, accountId }) =>
+      handleSaveTarget(body as TargetBody, env, accountId, null),
+  },
+  {
+    method: 'GET',
+    path: '/api/targets/:name',
+    operationId: 'getTarget',
+    summary: 'Get a transfer target',
+    scope: 'devices:read',
+    spotify: false,
+    params: { name: { description: 'Target name', schema: STRING } },
+    responses: {
+      200: { description: 'Target', schema: TARGET_RESPONSE },
+      ...errors('No target with that name', 404),
+    },
+    handler: ({ params, env, accountId }) => handleGetTarget(env, accountId, params.name),
+  },
+  {
+    method: 'PUT',
+    path: '/api/targets/:name',
+    operationId: 'saveTarget',
+    summary: 'Create or replace a transfer target',
+    scope: 'admin',
+    spotify: false,
+    params: { name: { description: 'Target name', schema: STRING } },
+    body: { schema: TARGET_REPLACE_BODY, required: true },
+    responses: {
+      200: { description: 'Replaced', schema: SAVED_TARGET_RESPONSE },
+      201: { description: 'Created', schema: SAVED_TARGET_RESPONSE },
+      ...errors('Invalid request body', 400),
+    },
+    handler: ({ body, params, env, accountId }) =>
+      handleSaveTarget(body as TargetBody, env, accountId, params.name),
+  },
+  {
+    method: 'DELETE',
+    path: '/api/targets/:name',
+    operationId: 'deleteTarget',
+    summary: 'Delete a stored transfer target',
+    description: 'Deleting an override of a built-in target restores the built-in definition.',
+    scope: 'admin',
+    spotify: false,
+    params: { name: { description: 'Target name', schema: STRING } },
+    responses: {
+      200: { description: 'Deleted', schema: DELETED_RESPONSE },
+      ...errors('No stored target with that name', 404),
+    },
+    handler: ({ params, env, accountId }) => handleDeleteTarget(env, accountId, params.name),
+  },
+];
+
+/**
+ * GET /openapi.json
+ * Generated from the route tables, so it always matches what the worker serves
+ */
+function handleOpenApi(env: Env): Response {
+  const document = buildOpenApiDocument([...PUBLIC_ROUTES, ...API_ROUTES], {
+    title: 'Spotify Echo Dot Transfer',
+    version: '1.0.0',
+    description: 'Spotify Connect transfers, playback control and schedules for Shortcuts.',
+    serverUrl: env.BASE_URL || null,
+    securitySchemes: {
+      automationKey: { type: 'apiKey', in: 'header', name: 'X-Automation-Key' },
+    },
+    security: new Map(
+      API_ROUTES.map((route) => [
+        route.operationId,
+        { scheme: 'automationKey', scope: route.scope },
+      ])
+    ),
+    securedParameters: {
+      'X-Spotify-Account': {
+        description: 'Account to act on, with the admin AUTOMATION_KEY (default account if unset)',
+        schema: STRING,
+      },
+    },
+    securedResponses: {
+      ...errors('Missing or invalid key, or no account connected', 401),
+      ...errors('The key lacks the scope this route needs', 403),
+      ...errors('Rate limited or locked out; see Retry-After', 429),
+    },
+  });
+  return addCorsHeaders(jsonSuccess(document));
+}
+
+/**
+ * Run an API route: resolve the caller behind the key, enforce the key's rate limit and
+ * the route's scope, validate the body, then check the Spotify connection if needed
+ */
+async function handleApiRoute(
+  route: ApiRoute,
+  context: RequestContext,
+  rateLimits: RateLimitConfig
+): Promise<Response> {
+  const { request, env } = context;
+
+  // Check automation key and resolve which account the caller acts on
+  const caller = await resolveCaller(request, env);
+  if (!caller.ok) {
+    if (caller.code === 'NO_ACCOUNT_SELECTED') {
+      return addCorsHeaders(
+        jsonError(
+          'NOT_AUTHENTICATED',
+          'No account connected. Visit /login to connect your Spotify account.',
+          401
+        )
+      );
+    }
+    await recordInvalidKey(env, clientIp(request), rateLimits);
+    return addCorsHeaders(
+      jsonError('INVALID_AUTOMATION_KEY', 'Invalid or missing X-Automation-Key header', 401)
+    );
+  }
+  const { accountId, scopes, label } = caller;
+
+  const denied =
+    (await checkKeyLimit(env, caller.keyId, rateLimits)) ?? requireScope(scopes, route.scope);
+  if (denied) {
+    return denied;
+  }
+
+  let body: unknown = {};
+  if (route.body) {
+    const result = await readBody(request, route.body);
+    if ('error' in result) {
+      return addCorsHeaders(jsonError('INVALID_REQUEST', result.error, 400));
+    }
+    body = result.body;
+  }
+
+  if (route.spotify) {
+    const authError = await requireAuth(env, accountId);
+    if (authError) {
+      return authError;
+    }
+  }
+
+  return route.handler({ ...context, accountId, scopes, label, body });
+}
+
+/**
+ * Main request handler. Errors no handler caught become a JSON 500 instead of the
+ * runtime's HTML error page.
+ */
+async function handleRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  try {
+    return await routeRequest(request, env, ctx);
+  } catch (error) {
+    console.error(`Unhandled error for ${request.method} ${new URL(request.url).pathname}:`, error);
+    return addCorsHeaders(jsonError('INTERNAL_ERROR', 'Internal server error', 500));
+  }
+}
+
+/**
+ * Dispatch a request to its route
+ */
+async function routeRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  const url = new URL(request.url);
+  const path = url.pathname;
+  const method = request.method;
+  const isApi = path.startsWith('/api');
+
+  // Handle CORS preflight
+  if (method === 'OPTIONS' && isApi) {
+    return handleOptions();
+  }
+
+  // Everything that accepts an automation key is rate limited per client
+  const rateLimits = getRateLimitConfig(env);
+  if (isApi || path === '/status' || path === '/status/transfer') {
+    const limited = await checkClientLimits(request, env, rateLimits);
+    if (limited) {
+      return limited;
+    }
+  }
+
+  const match = matchRoute<PublicRoute | ApiRoute>(
+    [...PUBLIC_ROUTES, ...API_ROUTES],
+    method,
+    path
+  );
+
+  if (!match) {
+    const notFound = jsonError('NOT_FOUND', 'Not found', 404);
+    return isApi ? addCorsHeaders(notFound) : notFound;
+  }
+
+  if ('allowed' in match) {
+    const response = jsonError(
+      'METHOD_NOT_ALLOWED',
+      `${method} is not supported here. Allowed: ${match.allowed.join(', ')}`,
+      405
+    );
+    response.headers.set('Allow', match.allowed.join(', '));
+    return isApi ? addCorsHeaders(response) : response;
+  }
+
+  const context: RequestContext = { request, env, ctx, url, params: match.params };
+  const { route } = match;
+  return 'scope' in route
+    ? handleApiRoute(route, context, rateLimits)
+    : route.handler(context);
+}
+
+// Durable Object classes must be exported from the worker's main module
+export { RateLimiter } from './ratelimit';
 
 /**
  * Cloudflare Worker export
  */
 export default {
-  fetch: handleRequest,
+  // Each request and cron run gets its own token cache
+  fetch: (request: Request, env: Env, ctx: ExecutionContext) =>
+    handleRequest(request, withTokenCache(env), ctx),
+  scheduled: (controller: ScheduledController, env: Env) =>
+    handleScheduled(controller, withTokenCache(env)),
 };
@@ -0,0 +1,181 @@
+/**
+ * Background transfer jobs: KV-persisted status of async transfers that are still
+ * waiting for their device or retrying
+ *
+ * KV takes about one write per second per key, so progress and the final outcome live
+ * under separate keys: progress updates may be throttled or lost, but the outcome is
+ * written once, to a key nothing else writes, and read first.
+ */
+
+import { Env } from './storage';
+import { TransferVerification, sleep } from './verify';
+import { VolumeHandoff } from './volume';
+
+export type TransferJobStatus = 'WAITING_FOR_DEVICE' | 'RETRYING' | 'SUCCEEDED' | 'FAILED';
+
+export interface TransferJob {
+  id: string;
+  accountId: string;
+  deviceId: string | null; // null while waiting for a target's device to appear
+  deviceName: string | null;
+  target: string | null; // Transfer target name, for /api/transfer/:target
+  status: TransferJobStatus;
+  attempts: number;
+  lastSpotifyStatus: number | null;
+  error: { code: string; message: string } | null;
+  verification: TransferVerification | null; // Set when the transfer ran in verify mode
+  startedFresh: boolean; // Fallback content was started, as there was no session to transfer
+  volume: VolumeHandoff | null; // Set when the transfer asked for a volume, once it lands
+  created_at: number; // Unix timestamp in seconds
+  updated_at: number; // Unix timestamp in seconds
+  completed_at: number | null; // Unix timestamp in seconds
+  deadline_at: number; // Unix timestamp in seconds; the job fails with TRANSFER_TIMEOUT after it
+}
+
+const TRANSFER_JOB_KEY_PREFIX = 'transfer_job:';
+const TRANSFER_JOB_RESULT_KEY_PREFIX = 'transfer_job_result:';
+const KV_WRITE_INTERVAL_MS = 1000; // KV's write limit for a single key
+const TRANSFER_JOB_TTL_SECONDS = 24 * 60 * 60; // Jobs can be polled for a day
+// Jobs run in waitUntil, which must settle within 30s of the response. The wait for the
+// device, the retries, verification and webhook delivery all share this one budget.
+export const TRANSFER_JOB_BUDGET_SECONDS = 28;
+
+// Jobs are keyed by account so one account can never read another account's jobs
+function transferJobKey(accountId: string, id: string): string {
+  return `${TRANSFER_JOB_KEY_PREFIX}${accountId}:${id}`;
+}
+
+function transferJobResultKey(accountId: string, id: string): string {
+  return `${TRANSFER_JOB_RESULT_KEY_PREFIX}${accountId}:${id}`;
+}
+
+export type TransferJobChanges = Partial<
+  Pick<
+    TransferJob,
+    | 'deviceId'
+    | 'deviceName'
+    | 'status'
+    | 'attempts'
+    | 'lastSpotifyStatus'
+    | 'startedFresh'
+    | 'error'
+    | 'verification'
+    | 'volume'
+  >
+>;
+
+async function writeTransferJob(env: Env, job: TransferJob): Promise<void> {
+  try {
+    await env.TOKENS_KV.put(transferJobKey(job.accountId, job.id), JSON.stringify(job), {
+      expirationTtl: TRANSFER_JOB_TTL_SECONDS,
+    });
+  } catch (error) {
+    // A lost status update must never break the transfer itself
+    console.error('Error writing transfer job to KV:', error);
+  }
+}
+
+/**
+ * Create and persist a job for a transfer that continues in the background
+ */
+export async function createTransferJob(
+  env: Env,
+  accountId: string,
+  fields: Pick<
+    TransferJob,
+    | 'deviceId'
+    | 'deviceName'
+    | 'target'
+    | 'status'
+    | 'attempts'
+    | 'lastSpotifyStatus'
+    | 'startedFresh'
+  >
+): Promise<TransferJob> {
+  const now = Math.floor(Date.now() / 1000);
+  const job: TransferJob = {
+    id: crypto.randomUUID(),
+    accountId,
+    ...fields,
+    error: null,
+    verification: null,
+    volume: null,
+    created_at: now,
+    updated_at: now,
+    completed_at: null,
+    deadline_at: now + TRANSFER_JOB_BUDGET_SECONDS,
+  };
+
+  await writeTransferJob(env, job);
+  return job;
+}
+
+/**
+ * Apply progress changes to a running job and persist them
+ * Updates that keep the status are written at most once per second; the ones in between
+ * are only carried in the returned job. Use settleTransferJob for the final outcome.
+ */
+export async function updateTransferJob(
+  env: Env,
+  job: TransferJob,
+  changes: TransferJobChanges
+): Promise<TransferJob> {
+  const now = Math.floor(Date.now() / 1000);
+  const updated: TransferJob = { ...job, ...changes, updated_at: now };
+
+  if (updated.status !== job.status || job.updated_at !== now) {
+    await writeTransferJob(env, updated);
+  }
+  return updated;
+}
+
+/**
+ * Apply a job's final changes (status SUCCEEDED or FAILED), setting completed_at
+ */
+export function settleTransferJob(
+  job: TransferJob,
+  changes: TransferJobChanges & { status: 'SUCCEEDED' | 'FAILED' }
+): TransferJob {
+  const now = Math.floor(Date.now() / 1000);
+  return { ...job, ...changes, updated_at: now, completed_at: job.completed_at ?? now };
+}
+
+/**
+ * Store a settled job's outcome under its own key, which GET /api/transfers/:id reads
+ * before the progress key. A failed write is tried once more after KV's per-key write
+ * interval; if that fails too, the error is thrown.
+ */
+export async function writeTransferJobResult(env: Env, job: TransferJob): Promise<void> {
+  const write = () =>
+    env.TOKENS_KV.put(transferJobResultKey(job.accountId, job.id), JSON.stringify(job), {
+      expirationTtl: TRANSFER_JOB_TTL_SECONDS,
+    });
+  try {
+    await write();
+  } catch (error) {
+    console.error('Error writing transfer job result to KV, retrying:', error);
+    await sleep(KV_WRITE_INTERVAL_MS);
+    await write();
+  }
+}
+
+/**
+ * Read a job belonging to an account: its outcome once settled, otherwise its progress
+ */
+export async function readTransferJob(
+  env: Env,
+  accountId: string,
+  id: string
+): Promise<TransferJob | null> {
+  try {
+    const [result, progress] = await Promise.all([
+      env.TOKENS_KV.get(transferJobResultKey(accountId, id)),
+      env.TOKENS_KV.get(transferJobKey(accountId, id)),
+    ]);
+    const data = result ?? progress;
+    return data ? (JSON.parse(data) as TransferJob) : null;
+  } catch (error) {
+    console.error('Error reading transfer job from KV:', error);
+    return null;
+  }
+}
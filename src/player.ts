@@ -0,0 +1,360 @@
+/**
+ * Playback control commands and playback state: validate request bodies, map them to
+ * Spotify Web API calls, and normalize /me/player responses
+ */
+
+import { SpotifyDevice } from './spotify';
+
+export type PlayerCommand =
+  | 'play'
+  | 'pause'
+  | 'next'
+  | 'previous'
+  | 'seek'
+  | 'volume'
+  | 'shuffle'
+  | 'repeat';
+
+export interface PlayerRequest {
+  method: 'PUT' | 'POST';
+  path: string;
+  body?: string;
+  message: string; // Success message returned to the caller
+}
+
+export const PLAYER_COMMANDS: PlayerCommand[] = [
+  'play',
+  'pause',
+  'next',
+  'previous',
+  'seek',
+  'volume',
+  'shuffle',
+  'repeat',
+];
+
+export const REPEAT_STATES = ['track', 'context', 'off'];
+
+/**
+ * Check whether a path segment names a supported player command
+ */
+export function isPlayerCommand(value: string): value is PlayerCommand {
+  return (PLAYER_COMMANDS as string[]).includes(value);
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Check a play offset: { position } (a non-negative integer) or { uri } (a string)
+ * Returns a human-readable problem, or null when it is usable
+ */
+export function validatePlayOffset(offset: unknown, field = 'offset'): string | null {
+  const problem = `${field} must be { "position": <non-negative integer> } or { "uri": <string> }`;
+  if (typeof offset !== 'object' || offset === null || Array.isArray(offset)) {
+    return problem;
+  }
+  const keys = Object.keys(offset);
+  const { position, uri } = offset as Record<string, unknown>;
+  if (keys.length !== 1) {
+    return problem;
+  }
+  if (keys[0] === 'position' && isNonNegativeInteger(position)) {
+    return null;
+  }
+  if (keys[0] === 'uri' && typeof uri === 'string' && uri !== '') {
+    return null;
+  }
+  return problem;
+}
+
+function withQuery(path: string, params: Record<string, string | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      query.set(key, value);
+    }
+  }
+  const queryString = query.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+/**
+ * Build the Spotify request for a player command
+ * Body fields: deviceId (all commands), plus
+ *   play:    context_uri?, uris?, offset?, position_ms?
+ *   seek:    position_ms
+ *   volume:  volume_percent (0-100)
+ *   shuffle: state (boolean)
+ *   repeat:  state ("track" | "context" | "off")
+ * Returns a human-readable problem instead when the body is invalid
+ */
+export function buildPlayerRequest(
+  command: PlayerCommand,
+  body: Record<string, unknown>
+): PlayerRequest | { error: string } {
+  const { deviceId } = body;
+  if (deviceId !== undefined && (typeof deviceId !== 'string' || deviceId === '')) {
+    return { error: 'deviceId must be a non-empty string' };
+  }
+  const device_id = deviceId as string | undefined;
+
+  switch (command) {
+    case 'play': {
+      const { context_uri, uris, offset, position_ms } = body;
+      if (context_uri !== undefined && typeof context_uri !== 'string') {
+        return { error: 'context_uri must be a string' };
+      }
+      const validUris = Array.isArray(uris) && uris.every((uri) => typeof uri === 'string');
+      if (uris !== undefined && !validUris) {
+        return { error: 'uris must be an array of strings' };
+      }
+      if (context_uri !== undefined && uris !== undefined) {
+        return { error: 'Provide either context_uri or uris, not both' };
+      }
+      if (offset !== undefined) {
+        const problem = validatePlayOffset(offset);
+        if (problem) {
+          return { error: problem };
+        }
+      }
+      if (position_ms !== undefined && !isNonNegativeInteger(position_ms)) {
+        return { error: 'position_ms must be a non-negative integer' };
+      }
+
+      // Only forward the fields that were given; an empty body resumes playback
+      const playBody = Object.fromEntries(
+        Object.entries({ context_uri, uris, offset, position_ms }).filter(
+          ([, value]) => value !== undefined
+        )
+      );
+
+      return {
+        method: 'PUT',
+        path: withQuery('/me/player/play', { device_id }),
+        body: Object.keys(playBody).length > 0 ? JSON.stringify(playBody) : undefined,
+        message: 'Playback started',
+      };
+    }
+
+    case 'pause':
+      return {
+        method: 'PUT',
+        path: withQuery('/me/player/pause', { device_id }),
+        message: 'Playback paused',
+      };
+
+    case 'next':
+      return {
+        method: 'POST',
+        path: withQuery('/me/player/next', { device_id }),
+        message: 'Skipped to next track',
+      };
+
+    case 'previous':
+      return {
+        method: 'POST',
+        path: withQuery('/me/player/previous', { device_id }),
+        message: 'Skipped to previous track',
+      };
+
+    case 'seek': {
+      const { position_ms } = body;
+      if (!isNonNegativeInteger(position_ms)) {
+        return { error: 'position_ms is required and must be a non-negative integer' };
+      }
+      return {
+        method: 'PUT',
+        path: withQuery('/me/player/seek', { position_ms: String(position_ms), device_id }),
+        message: `Seeked to ${position_ms}ms`,
+      };
+    }
+
+    case 'volume': {
+      const { volume_percent } = body;
+      if (!isNonNegativeInteger(volume_percent) || volume_percent > 100) {
+        return { error: 'volume_percent is required and must be an integer from 0 to 100' };
+      }
+      return {
+        method: 'PUT',
+        path: withQuery('/me/player/volume', {
+          volume_percent: String(volume_percent),
+          device_id,
+        }),
+        message: `Volume set to ${volume_percent}%`,
+      };
+    }
+
+    case 'shuffle': {
+      const { state } = body;
+      if (typeof state !== 'boolean') {
+        return { error: 'state is required and must be a boolean' };
+      }
+      return {
+        method: 'PUT',
+        path: withQuery('/me/player/shuffle', { state: String(state), device_id }),
+        message: `Shuffle ${state ? 'enabled' : 'disabled'}`,
+      };
+    }
+
+    case 'repeat': {
+      const { state } = body;
+      if (typeof state !== 'string' || !REPEAT_STATES.includes(state)) {
+        return { error: 'state is required and must be one of "track", "context" or "off"' };
+      }
+      return {
+        method: 'PUT',
+        path: withQuery('/me/player/repeat', { state, device_id }),
+        message: `Repeat set to ${state}`,
+      };
+    }
+  }
+}
+
+/**
+ * Content to start on a device when there is no playback session to transfer
+ */
+export interface PlaybackContent {
+  context_uri?: string; // Playlist, album or artist
+  uris?: string[]; // Tracks, played in order
+  offset?: { position: number } | { uri: string };
+  position_ms?: number;
+}
+
+/**
+ * Check a transfer's fallbackContent (field types are already validated by its schema)
+ * Returns a human-readable problem when it names no content or too much, otherwise null
+ */
+export function validatePlaybackContent(content: PlaybackContent): string | null {
+  if (content.context_uri === undefined && content.uris === undefined) {
+    return 'fallbackContent must have a context_uri or uris';
+  }
+  if (content.context_uri !== undefined && content.uris !== undefined) {
+    return 'fallbackContent must have either context_uri or uris, not both';
+  }
+  if (content.offset !== undefined) {
+    return validatePlayOffset(content.offset, 'fallbackContent.offset');
+  }
+  return null;
+}
+
+/**
+ * Build the Spotify request that starts content on a device from scratch
+ */
+export function startPlaybackRequest(deviceId: string, content: PlaybackContent): PlayerRequest {
+  return {
+    method: 'PUT',
+    path: withQuery('/me/player/play', { device_id: deviceId }),
+    body: JSON.stringify(content),
+    message: 'Playback started',
+  };
+}
+
+// Subset of the Spotify /me/player response that the worker reads
+interface SpotifyImage {
+  url: string;
+  width: number | null;
+}
+
+export interface SpotifyPlaybackResponse {
+  device: SpotifyDevice | null;
+  is_playing: boolean;
+  progress_ms: number | null;
+  shuffle_state: boolean;
+  repeat_state: 'off' | 'track' | 'context';
+  currently_playing_type: string;
+  item:
+    | {
+        type: 'track';
+        uri: string;
+        name: string;
+        duration_ms: number;
+        artists: { name: string }[];
+        album: { name: string; images: SpotifyImage[] };
+      }
+    | {
+        type: 'episode';
+        uri: string;
+        name: string;
+        duration_ms: number;
+        images: SpotifyImage[];
+        show: { name: string; publisher: string; images: SpotifyImage[] };
+      }
+    | null;
+}
+
+export interface PlaybackState {
+  state: 'PLAYING' | 'PAUSED' | 'NOTHING_PLAYING';
+  is_playing: boolean;
+  device: SpotifyDevice | null;
+  item: {
+    type: 'track' | 'episode';
+    uri: string;
+    title: string;
+    artists: string[]; // Track artists, or the show's name for episodes
+    album: string | null;
+    album_art_url: string | null;
+  } | null;
+  progress_ms: number | null;
+  duration_ms: number | null;
+  shuffle_state: boolean;
+  repeat_state: 'off' | 'track' | 'context';
+}
+
+/**
+ * Playback state reported when Spotify has no active session (204 from /me/player)
+ */
+export const NOTHING_PLAYING: PlaybackState = {
+  state: 'NOTHING_PLAYING',
+  is_playing: false,
+  device: null,
+  item: null,
+  progress_ms: null,
+  duration_ms: null,
+  shuffle_state: false,
+  repeat_state: 'off',
+};
+
+// Spotify lists images largest first; prefer the largest for lock-screen art
+function largestImageUrl(images: SpotifyImage[] | undefined): string | null {
+  return images && images.length > 0 ? images[0].url : null;
+}
+
+/**
+ * Normalize a Spotify /me/player response into the worker's stable playback shape
+ */
+export function normalizePlaybackState(data: SpotifyPlaybackResponse): PlaybackState {
+  let item: PlaybackState['item'] = null;
+
+  if (data.item?.type === 'track') {
+    item = {
+      type: 'track',
+      uri: data.item.uri,
+      title: data.item.name,
+      artists: data.item.artists.map((artist) => artist.name),
+      album: data.item.album.name,
+      album_art_url: largestImageUrl(data.item.album.images),
+    };
+  } else if (data.item?.type === 'episode') {
+    item = {
+      type: 'episode',
+      uri: data.item.uri,
+      title: data.item.name,
+      artists: [data.item.show.name],
+      album: data.item.show.name,
+      album_art_url: largestImageUrl(data.item.images) ?? largestImageUrl(data.item.show.images),
+    };
+  }
+
+  return {
+    state: data.is_playing ? 'PLAYING' : 'PAUSED',
+    is_playing: data.is_playing,
+    device: data.device ?? null,
+    item,
+    progress_ms: data.progress_ms ?? null,
+    duration_ms: data.item?.duration_ms ?? null,
+    shuffle_state: data.shuffle_state,
+    repeat_state: data.repeat_state,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Previous devices: a short per-account stack of the devices playback was moved away
+ * from, most recent last, for POST /api/transfer/back
+ *
+ * Every successful transfer pushes the device that was active before it and drops the
+ * device it moved to, so transferring back and forth toggles between two rooms.
+ */
+
+import { Env } from './storage';
+import { HistoryDevice } from './history';
+
+export interface PreviousDevice extends HistoryDevice {
+  at: number; // Unix timestamp in seconds when playback moved away from the device
+}
+
+const PREVIOUS_DEVICES_KEY_PREFIX = 'previous_devices:';
+const MAX_PREVIOUS_DEVICES = 5;
+
+/**
+ * Read an account's previous devices, most recent last
+ */
+export async function readPreviousDevices(env: Env, accountId: string): Promise<PreviousDevice[]> {
+  try {
+    const data = await env.TOKENS_KV.get(`${PREVIOUS_DEVICES_KEY_PREFIX}${accountId}`);
+    return data ? (JSON.parse(data) as PreviousDevice[]) : [];
+  } catch (error) {
+    console.error('Error reading previous devices from KV:', error);
+    return [];
+  }
+}
+
+/**
+ * Remember the device a successful transfer moved playback away from
+ * Each device appears at most once; the destination is dropped, since playback is there now.
+ */
+export async function pushPreviousDevice(
+  env: Env,
+  accountId: string,
+  source: HistoryDevice,
+  destinationId: string
+): Promise<void> {
+  if (source.id === destinationId) {
+    return;
+  }
+
+  try {
+    const stack = (await readPreviousDevices(env, accountId)).filter(
+      (device) => device.id !== source.id && device.id !== destinationId
+    );
+    stack.push({ id: source.id, name: source.name, at: Math.floor(Date.now() / 1000) });
+    await env.TOKENS_KV.put(
+      `${PREVIOUS_DEVICES_KEY_PREFIX}${accountId}`,
+      JSON.stringify(stack.slice(-MAX_PREVIOUS_DEVICES))
+    );
+  } catch (error) {
+    // Losing the stack only affects /api/transfer/back, never the transfer itself
+    console.error('Error writing previous devices to KV:', error);
+  }
+}
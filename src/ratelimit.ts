@@ -0,0 +1,192 @@
+/**
+ * Rate limiting and brute-force lockout
+ *
+ * Limits use a sliding window log: each bucket keeps the timestamps of its recent hits in
+ * its own RateLimiter Durable Object. A Durable Object handles one request at a time, so
+ * concurrent requests are counted exactly, wherever they arrive. Clients that send too
+ * many invalid automation keys are locked out for a while under `lockout:<ip>` in KV.
+ *
+ * Limits fail open if the Durable Object or KV is unavailable.
+ */
+
+import { Env } from './storage';
+
+export interface RateLimit {
+  limit: number; // Requests allowed per window
+  windowSeconds: number;
+}
+
+export interface RateLimitConfig {
+  perIp: RateLimit | null; // null when disabled
+  perKey: RateLimit | null;
+  invalidKeys: RateLimit | null; // Invalid keys allowed per window before a lockout
+  lockoutSeconds: number;
+}
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfter: number };
+
+const LOCKOUT_KEY_PREFIX = 'lockout:';
+const MIN_KV_TTL_SECONDS = 60; // KV rejects shorter expiration TTLs
+
+const DEFAULT_PER_IP: RateLimit = { limit: 120, windowSeconds: 60 };
+const DEFAULT_PER_KEY: RateLimit = { limit: 60, windowSeconds: 60 };
+const DEFAULT_INVALID_KEYS: RateLimit = { limit: 10, windowSeconds: 600 };
+const DEFAULT_LOCKOUT_SECONDS = 900;
+const RATE_LIMIT_PATTERN = /^(\d+)\s*\/\s*(\d+)$/;
+
+/**
+ * Parse a "<requests>/<seconds>" limit such as "120/60"; "off" or "0" disables it
+ */
+function parseRateLimit(value: string | undefined, fallback: RateLimit): RateLimit | null {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+  if (value.trim() === 'off' || value.trim() === '0') {
+    return null;
+  }
+
+  const match = value.trim().match(RATE_LIMIT_PATTERN);
+  if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) {
+    console.warn(`Invalid rate limit "${value}"; expected "<requests>/<seconds>". Using default.`);
+    return fallback;
+  }
+
+  return { limit: Number(match[1]), windowSeconds: Number(match[2]) };
+}
+
+/**
+ * Check that a configured limit is unset, "off", "0" or "<requests>/<seconds>"
+ */
+export function isValidRateLimit(value: string | undefined): boolean {
+  const trimmed = value?.trim() ?? '';
+  if (trimmed === '' || trimmed === 'off' || trimmed === '0') {
+    return true;
+  }
+  const match = trimmed.match(RATE_LIMIT_PATTERN);
+  return match !== null && Number(match[1]) > 0 && Number(match[2]) > 0;
+}
+
+/**
+ * Read the rate limit settings from env, falling back to the defaults
+ */
+export function getRateLimitConfig(env: Env): RateLimitConfig {
+  const lockoutSeconds = Number(env.LOCKOUT_SECONDS);
+
+  return {
+    perIp: parseRateLimit(env.RATE_LIMIT_PER_IP, DEFAULT_PER_IP),
+    perKey: parseRateLimit(env.RATE_LIMIT_PER_KEY, DEFAULT_PER_KEY),
+    invalidKeys: parseRateLimit(env.LOCKOUT_AFTER_INVALID_KEYS, DEFAULT_INVALID_KEYS),
+    lockoutSeconds:
+      Number.isFinite(lockoutSeconds) && lockoutSeconds > 0
+        ? lockoutSeconds
+        : DEFAULT_LOCKOUT_SECONDS,
+  };
+}
+
+const HITS_STORAGE_KEY = 'hits';
+
+/**
+ * Durable Object holding one bucket's hits; a bucket's object is named after the bucket
+ * (see hitRateLimit). The object's storage is cleared once its last hit leaves the window.
+ */
+export class RateLimiter implements DurableObject {
+  constructor(private readonly state: DurableObjectState) {}
+
+  /**
+   * POST a RateLimit; responds with the RateLimitResult of counting one hit
+   */
+  async fetch(request: Request): Promise<Response> {
+    const limit = await request.json<RateLimit>();
+    const now = Date.now();
+    const windowMs = limit.windowSeconds * 1000;
+
+    const stored = (await this.state.storage.get<number[]>(HITS_STORAGE_KEY)) ?? [];
+    const hits = stored.filter((at) => at > now - windowMs);
+
+    if (hits.length >= limit.limit) {
+      // The oldest hit in the window is the next to expire
+      const retryAfter = Math.ceil((hits[0] + windowMs - now) / 1000);
+      return Response.json({ allowed: false, retryAfter: Math.max(1, retryAfter) });
+    }
+
+    hits.push(now);
+    await this.state.storage.put(HITS_STORAGE_KEY, hits);
+    await this.state.storage.setAlarm(now + windowMs);
+    return Response.json({ allowed: true });
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+/**
+ * Count a hit against a bucket, unless the bucket is already at its limit
+ * Rejected hits are not recorded, so a client that backs off recovers on schedule.
+ */
+export async function hitRateLimit(
+  env: Env,
+  bucket: string,
+  limit: RateLimit
+): Promise<RateLimitResult> {
+  try {
+    const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(bucket));
+    const response = await limiter.fetch('https://rate-limiter/hit', {
+      method: 'POST',
+      body: JSON.stringify(limit),
+    });
+    if (!response.ok) {
+      throw new Error(`Rate limiter returned ${response.status}`);
+    }
+    return await response.json<RateLimitResult>();
+  } catch (error) {
+    console.error('Error counting rate limit hit:', error);
+    return { allowed: true };
+  }
+}
+
+/**
+ * Check whether a client is locked out after too many invalid keys
+ */
+export async function checkLockout(env: Env, ip: string): Promise<RateLimitResult> {
+  try {
+    const lockedUntil = Number(await env.TOKENS_KV.get(`${LOCKOUT_KEY_PREFIX}${ip}`));
+    const now = Math.floor(Date.now() / 1000);
+    if (lockedUntil > now) {
+      return { allowed: false, retryAfter: lockedUntil - now };
+    }
+  } catch (error) {
+    console.error('Error reading lockout from KV:', error);
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Record an invalid automation key from a client, locking it out once it has sent
+ * too many within the window
+ */
+export async function recordInvalidKey(
+  env: Env,
+  ip: string,
+  config: RateLimitConfig
+): Promise<void> {
+  if (!config.invalidKeys) {
+    return;
+  }
+
+  const result = await hitRateLimit(env, `invalid_key:${ip}`, config.invalidKeys);
+  if (result.allowed) {
+    return;
+  }
+
+  try {
+    const lockedUntil = Math.floor(Date.now() / 1000) + config.lockoutSeconds;
+    await env.TOKENS_KV.put(`${LOCKOUT_KEY_PREFIX}${ip}`, String(lockedUntil), {
+      expirationTtl: Math.max(MIN_KV_TTL_SECONDS, config.lockoutSeconds),
+    });
+    console.warn(`Locked out ${ip} for ${config.lockoutSeconds}s after repeated invalid keys`);
+  } catch (error) {
+    console.error('Error writing lockout to KV:', error);
+  }
+}
@@ -0,0 +1,381 @@
+/**
+ * Declarative routing: route definitions, path matching, request body validation and
+ * the OpenAPI document generated from the same definitions
+ *
+ * Routes declare their method, path (with `:param` segments), parameters, request body
+ * and response schemas. index.ts holds the route tables and dispatches to the handlers.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * The subset of JSON Schema (as used by OpenAPI 3.0) that routes use to describe
+ * bodies and responses, and that validateSchema understands
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  nullable?: boolean;
+  // object
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  // array
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  // string
+  enum?: (string | number | boolean)[];
+  minLength?: number;
+  maxLength?: number;
+  // integer, number
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: boolean;
+}
+
+export interface ParameterSpec {
+  description: string;
+  schema: JsonSchema;
+  required?: boolean; // Path parameters are always required
+}
+
+export interface ResponseSpec {
+  description: string;
+  schema?: JsonSchema;
+  contentType?: string; // Default application/json
+}
+
+/**
+ * Everything about a route except its handler: used for matching, validation and the
+ * OpenAPI document
+ */
+export interface RouteSpec {
+  method: HttpMethod;
+  path: string; // e.g. "/api/transfer/:target"
+  operationId: string;
+  summary: string;
+  description?: string;
+  params?: Record<string, ParameterSpec>; // Path parameters; an enum schema limits matches
+  query?: Record<string, ParameterSpec>; // Documented only; handlers parse their own query
+  body?: { schema: JsonSchema; required: boolean };
+  responses: Record<number, ResponseSpec>;
+}
+
+export interface Route<C> extends RouteSpec {
+  handler: (context: C) => Promise<Response> | Response;
+}
+
+export type RouteMatch<R extends RouteSpec> =
+  | { route: R; params: Record<string, string> }
+  | { allowed: HttpMethod[] } // The path exists, but not for this method
+  | null;
+
+/**
+ * Match a path against a route's pattern, returning its decoded parameters
+ */
+function matchPath(route: RouteSpec, path: string): Record<string, string> | null {
+  const patternSegments = route.path.split('/');
+  const pathSegments = path.split('/');
+  if (patternSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    const pattern = patternSegments[i];
+    if (!pattern.startsWith(':')) {
+      if (pattern !== pathSegments[i]) {
+        return null;
+      }
+      continue;
+    }
+
+    let value: string;
+    try {
+      value = decodeURIComponent(pathSegments[i]);
+    } catch {
+      return null;
+    }
+    const name = pattern.slice(1);
+    const schema = route.params?.[name]?.schema;
+    if (value === '' || (schema && validateSchema(schema, value, name) !== null)) {
+      return null;
+    }
+    params[name] = value;
+  }
+
+  return params;
+}
+
+/**
+ * Find the route for a request. Routes are tried in order, so list literal paths
+ * (e.g. /api/transfer/back) before parameterized ones (/api/transfer/:target).
+ */
+export function matchRoute<R extends RouteSpec>(
+  routes: R[],
+  method: string,
+  path: string
+): RouteMatch<R> {
+  const allowed: HttpMethod[] = [];
+
+  for (const route of routes) {
+    const params = matchPath(route, path);
+    if (!params) {
+      continue;
+    }
+    if (route.method === method) {
+      return { route, params };
+    }
+    if (!allowed.includes(route.method)) {
+      allowed.push(route.method);
+    }
+  }
+
+  return allowed.length > 0 ? { allowed } : null;
+}
+
+function describeType(schema: JsonSchema): string {
+  switch (schema.type) {
+    case 'object':
+      return 'an object';
+    case 'array':
+      return schema.items?.type === 'string' ? 'an array of strings' : 'an array';
+    case 'integer':
+      return 'an integer';
+    case 'string':
+      return schema.minLength ? 'a non-empty string' : 'a string';
+    default:
+      return `a ${schema.type}`;
+  }
+}
+
+function matchesType(schema: JsonSchema, value: unknown): boolean {
+  switch (schema.type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    default:
+      return true;
+  }
+}
+
+/**
+ * Validate a value against a schema
+ * Returns the first problem as a human-readable message naming the offending field
+ * (e.g. "rules.names must be an array of strings"), or null when the value is valid.
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, field: string): string | null {
+  if (value === null && schema.nullable) {
+    return null;
+  }
+
+  if (!matchesType(schema, value)) {
+    return `${field} must be ${describeType(schema)}`;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    return `${field} must be one of ${schema.enum.map((option) => `"${option}"`).join(', ')}`;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return `${field} must be ${describeType(schema)}`;
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return `${field} must be at most ${schema.maxLength} characters`;
+    }
+  }
+
+  if (typeof value === 'number') {
+    const belowMinimum =
+      schema.minimum !== undefined &&
+      (schema.exclusiveMinimum ? value <= schema.minimum : value < schema.minimum);
+    if (belowMinimum) {
+      return `${field} must be ${schema.exclusiveMinimum ? 'greater than' : 'at least'} ${
+        schema.minimum
+      }`;
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return `${field} must be at most ${schema.maximum}`;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return `${field} must have at least ${schema.minItems} item(s)`;
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return `${field} must have at most ${schema.maxItems} item(s)`;
+    }
+    for (let i = 0; i < value.length; i++) {
+      const problem = schema.items && validateSchema(schema.items, value[i], `${field}[${i}]`);
+      if (problem) {
+        return problem;
+      }
+    }
+  }
+
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>;
+    // Top-level fields are named on their own ("deviceId is required"), nested ones by path
+    const prefix = field === 'body' ? '' : `${field}.`;
+
+    for (const name of schema.required ?? []) {
+      if (object[name] === undefined) {
+        return `${prefix}${name} is required`;
+      }
+    }
+    for (const [name, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (object[name] === undefined) {
+        continue;
+      }
+      const problem = validateSchema(propertySchema, object[name], `${prefix}${name}`);
+      if (problem) {
+        return problem;
+      }
+    }
+    if (schema.additionalProperties === false) {
+      const unknown = Object.keys(object).find((name) => !(name in (schema.properties ?? {})));
+      if (unknown) {
+        return `${prefix}${unknown} is not a known field`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read and validate a route's JSON body
+ * An empty body counts as missing; optional bodies then default to {}.
+ */
+export async function readBody(
+  request: Request,
+  spec: NonNullable<RouteSpec['body']>
+): Promise<{ body: unknown } | { error: string }> {
+  const text = await request.text();
+  if (text.trim() === '') {
+    return spec.required ? { error: 'A JSON request body is required' } : { body: {} };
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return { error: 'Invalid request body' };
+  }
+
+  const problem = validateSchema(spec.schema, body, 'body');
+  return problem ? { error: problem } : { body };
+}
+
+export interface OpenApiOptions {
+  title: string;
+  version: string;
+  description: string;
+  serverUrl: string | null;
+  securitySchemes: Record<string, unknown>;
+  // Routes that need a key, keyed by operationId, with the scheme and scope they need
+  security: Map<string, { scheme: string; scope: string | null }>;
+  // Header parameters and responses (401, 403, 429, ...) shared by every secured route
+  securedParameters: Record<string, ParameterSpec>;
+  securedResponses: Record<number, ResponseSpec>;
+}
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+}
+
+function toOpenApiResponses(responses: Record<number, ResponseSpec>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(responses).map(([status, response]) => [
+      status,
+      {
+        description: response.description,
+        ...(response.schema && {
+          content: { [response.contentType ?? 'application/json']: { schema: response.schema } },
+        }),
+        ...(!response.schema &&
+          response.contentType && { content: { [response.contentType]: {} } }),
+      },
+    ])
+  );
+}
+
+/**
+ * Build an OpenAPI 3.0 document describing the routes
+ */
+export function buildOpenApiDocument(
+  routes: RouteSpec[],
+  options: OpenApiOptions
+): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of routes) {
+    const security = options.security.get(route.operationId);
+    const parameters = [
+      ...Object.entries(route.params ?? {}).map(([name, param]) => ({
+        name,
+        in: 'path',
+        required: true,
+        description: param.description,
+        schema: param.schema,
+      })),
+      ...Object.entries(route.query ?? {}).map(([name, param]) => ({
+        name,
+        in: 'query',
+        required: param.required ?? false,
+        description: param.description,
+        schema: param.schema,
+      })),
+      ...Object.entries(security ? options.securedParameters : {}).map(([name, param]) => ({
+        name,
+        in: 'header',
+        required: param.required ?? false,
+        description: param.description,
+        schema: param.schema,
+      })),
+    ];
+
+    const path = toOpenApiPath(route.path);
+    paths[path] = paths[path] ?? {};
+    paths[path][route.method.toLowerCase()] = {
+      operationId: route.operationId,
+      summary: route.summary,
+      ...(route.description && { description: route.description }),
+      ...(parameters.length > 0 && { parameters }),
+      ...(route.body && {
+        requestBody: {
+          required: route.body.required,
+          content: { 'application/json': { schema: route.body.schema } },
+        },
+      }),
+      responses: toOpenApiResponses({
+        ...route.responses,
+        ...(security && options.securedResponses),
+      }),
+      ...(security && {
+        security: [{ [security.scheme]: [] }],
+        ...(security.scope && { 'x-required-scope': security.scope }),
+      }),
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: { title: options.title, version: options.version, description: options.description },
+    ...(options.serverUrl && { servers: [{ url: options.serverUrl }] }),
+    paths,
+    components: { securitySchemes: options.securitySchemes },
+  };
+}
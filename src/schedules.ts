@@ -0,0 +1,229 @@
+/**
+ * Scheduled actions: stored per account in KV and run by the worker's cron trigger
+ */
+
+import { Env } from './storage';
+import { PlayerCommand, isPlayerCommand } from './player';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export type ScheduleAction = 'transfer' | PlayerCommand;
+
+export interface ScheduleRun {
+  at: number; // Unix timestamp in seconds
+  status: 'SUCCEEDED' | 'FAILED';
+  code: string | null; // API error code when the run failed
+  message: string;
+  deviceId: string | null;
+}
+
+export interface ScheduleInput {
+  name: string | null;
+  enabled: boolean;
+  time: string; // "HH:MM", 24-hour, in the schedule's time zone
+  days: Weekday[]; // Empty means every day
+  timezone: string; // IANA time zone, e.g. "Europe/London"
+  action: ScheduleAction;
+  deviceId: string | null;
+  target: string | null; // Named transfer target, resolved when the schedule runs
+  params: Record<string, unknown>; // transfer: { play? }, player commands: their body fields
+}
+
+export interface Schedule extends ScheduleInput {
+  id: string;
+  lastRun: ScheduleRun | null;
+  created_at: number; // Unix timestamp in seconds
+  updated_at: number; // Unix timestamp in seconds
+}
+
+const SCHEDULES_KEY_PREFIX = 'schedules:';
+// Ids of the accounts that have schedules, so the cron trigger never has to list keys
+const SCHEDULE_ACCOUNTS_KEY = 'schedule_accounts';
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a schedule from a request body
+ * Returns the normalized schedule fields, or a human-readable problem
+ */
+export function parseScheduleInput(
+  body: Record<string, unknown>
+): ScheduleInput | { error: string } {
+  const { name, enabled, time, days, timezone, action, deviceId, target, params } = body;
+
+  if (name !== undefined && name !== null && typeof name !== 'string') {
+    return { error: 'name must be a string' };
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return { error: 'enabled must be a boolean' };
+  }
+  if (typeof time !== 'string' || !TIME_PATTERN.test(time)) {
+    return { error: 'time is required and must be "HH:MM" (24-hour)' };
+  }
+  if (
+    days !== undefined &&
+    !(Array.isArray(days) && days.every((day) => WEEKDAYS.includes(day as Weekday)))
+  ) {
+    return { error: `days must be an array of ${WEEKDAYS.join(', ')}` };
+  }
+  if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+    return { error: 'timezone must be an IANA time zone, e.g. "Europe/London"' };
+  }
+  if (typeof action !== 'string' || (action !== 'transfer' && !isPlayerCommand(action))) {
+    return { error: 'action is required and must be "transfer" or a player command' };
+  }
+  if (deviceId !== undefined && deviceId !== null && typeof deviceId !== 'string') {
+    return { error: 'deviceId must be a string' };
+  }
+  if (target !== undefined && target !== null && typeof target !== 'string') {
+    return { error: 'target must be a string' };
+  }
+  if (deviceId && target) {
+    return { error: 'Provide either deviceId or target, not both' };
+  }
+  if (action === 'transfer' && !deviceId && !target) {
+    return { error: 'transfer schedules require a deviceId or target' };
+  }
+
+  const paramsIsObject = typeof params === 'object' && params !== null && !Array.isArray(params);
+  if (params !== undefined && !paramsIsObject) {
+    return { error: 'params must be an object' };
+  }
+
+  return {
+    name: (name as string | undefined) ?? null,
+    enabled: enabled ?? true,
+    time,
+    days: (days as Weekday[] | undefined) ?? [],
+    timezone: timezone ?? 'UTC',
+    action,
+    deviceId: (deviceId as string | undefined) || null,
+    target: (target as string | undefined) || null,
+    params: (params as Record<string, unknown> | undefined) ?? {},
+  };
+}
+
+/**
+ * Check whether a schedule should run at the given instant.
+ * Cron fires once a minute, so a schedule is due when the local time in its time zone
+ * matches and it has not already run during this minute.
+ */
+export function isScheduleDue(schedule: Schedule, now: Date): boolean {
+  if (!schedule.enabled) {
+    return false;
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: schedule.timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+  const localTime = `${part('hour')}:${part('minute')}`;
+  const localDay = part('weekday').toLowerCase() as Weekday;
+
+  if (localTime !== schedule.time) {
+    return false;
+  }
+  if (schedule.days.length > 0 && !schedule.days.includes(localDay)) {
+    return false;
+  }
+
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  return !schedule.lastRun || nowSeconds - schedule.lastRun.at >= 60;
+}
+
+/**
+ * Read the schedules stored for an account
+ */
+export async function readSchedules(env: Env, accountId: string): Promise<Schedule[]> {
+  try {
+    const data = await env.TOKENS_KV.get(`${SCHEDULES_KEY_PREFIX}${accountId}`);
+    return data ? (JSON.parse(data) as Schedule[]) : [];
+  } catch (error) {
+    console.error('Error reading schedules from KV:', error);
+    return [];
+  }
+}
+
+/**
+ * Write the schedules for an account, keeping the index of accounts with schedules current
+ */
+export async function writeSchedules(
+  env: Env,
+  accountId: string,
+  schedules: Schedule[]
+): Promise<void> {
+  const key = `${SCHEDULES_KEY_PREFIX}${accountId}`;
+  if (schedules.length > 0) {
+    await env.TOKENS_KV.put(key, JSON.stringify(schedules));
+  } else {
+    await env.TOKENS_KV.delete(key);
+  }
+
+  const accountIds = await listScheduleAccountIds(env);
+  const indexed = accountIds.includes(accountId);
+  if (schedules.length > 0 && !indexed) {
+    await writeScheduleAccountIds(env, [...accountIds, accountId]);
+  } else if (schedules.length === 0 && indexed) {
+    await writeScheduleAccountIds(env, accountIds.filter((id) => id !== accountId));
+  }
+}
+
+async function writeScheduleAccountIds(env: Env, accountIds: string[]): Promise<void> {
+  await env.TOKENS_KV.put(SCHEDULE_ACCOUNTS_KEY, JSON.stringify(accountIds));
+}
+
+/**
+ * List the ids of all accounts that have stored schedules
+ * Deployments from before the index existed build it once from a key listing.
+ */
+export async function listScheduleAccountIds(env: Env): Promise<string[]> {
+  const data = await env.TOKENS_KV.get(SCHEDULE_ACCOUNTS_KEY);
+  if (data) {
+    return JSON.parse(data) as string[];
+  }
+
+  const accountIds: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await env.TOKENS_KV.list({ prefix: SCHEDULES_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      accountIds.push(key.name.slice(SCHEDULES_KEY_PREFIX.length));
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  await writeScheduleAccountIds(env, accountIds);
+  return accountIds;
+}
+
+/**
+ * Record the outcome of runs on the stored schedules.
+ * Re-reads the schedules first so edits made while the runs were in flight are kept.
+ */
+export async function recordScheduleRuns(
+  env: Env,
+  accountId: string,
+  runs: Map<string, ScheduleRun>
+): Promise<void> {
+  const schedules = await readSchedules(env, accountId);
+  const updated = schedules.map((schedule) => {
+    const run = runs.get(schedule.id);
+    return run ? { ...schedule, lastRun: run } : schedule;
+  });
+  await writeSchedules(env, accountId, updated);
+}
@@ -0,0 +1,465 @@
+/**
+ * Request body and response schemas for the API routes, used to validate bodies before
+ * a handler runs and to describe the API in /openapi.json
+ *
+ * Bodies are only checked for shape here; handlers still run the domain checks that
+ * need more than a schema (time zones, regular expressions, field combinations).
+ */
+
+import { JsonSchema } from './router';
+import { API_SCOPES, MAX_LABEL_LENGTH } from './apikeys';
+import { PLAYER_COMMANDS, PlaybackContent, REPEAT_STATES } from './player';
+import { WEEKDAYS } from './schedules';
+import { MAX_FALLBACK_CANDIDATES } from './fallback';
+import { VolumeOption } from './volume';
+
+export interface TransferBody {
+  deviceId?: string; // One of deviceId and devices is required
+  devices?: Record<string, unknown>[];
+  play?: boolean;
+  fallbackContent?: PlaybackContent;
+  volume?: VolumeOption;
+  callbackUrl?: string;
+}
+
+export interface TransferTargetBody {
+  play?: boolean;
+  fallbackContent?: PlaybackContent;
+  volume?: VolumeOption;
+  callbackUrl?: string;
+}
+
+export interface TargetBody {
+  name?: string; // Taken from the path for PUT /api/targets/:name
+  rules: Record<string, unknown>;
+  volume?: number;
+}
+
+export interface DeviceVolumeBody {
+  volume: number;
+}
+
+const string = (description?: string): JsonSchema => ({ type: 'string', description });
+const nullableString = (description?: string): JsonSchema => ({
+  type: 'string',
+  nullable: true,
+  description,
+});
+const timestamp = (description: string, nullable = false): JsonSchema => ({
+  type: 'integer',
+  nullable,
+  description: `${description} (Unix timestamp in seconds)`,
+});
+const object = (properties: Record<string, JsonSchema>, required?: string[]): JsonSchema => ({
+  type: 'object',
+  properties,
+  ...(required && { required }),
+});
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+
+// Request bodies
+
+const TARGET_RULES: JsonSchema = {
+  ...object({
+    names: { ...arrayOf(string()), description: 'Exact device names (case-insensitive)' },
+    contains: { ...arrayOf(string()), description: 'Substrings of the device name' },
+    pattern: { type: 'string', minLength: 1, description: 'Regular expression (case-insensitive)' },
+    types: { ...arrayOf(string()), description: 'Spotify device types, e.g. "Speaker"' },
+    excludeRestricted: { type: 'boolean', description: 'Skip devices that reject Web API calls' },
+    excludePrivate: { type: 'boolean', description: 'Skip devices in a private session' },
+  }),
+  description: 'At least one of names, contains, pattern or types',
+};
+
+const PLAY_OFFSET: JsonSchema = {
+  ...object({
+    position: { type: 'integer', minimum: 0, description: 'Zero-based position in the context' },
+    uri: { type: 'string', minLength: 1, description: 'Track or episode URI in the context' },
+  }),
+  additionalProperties: false,
+  description: 'Where to start: exactly one of position or uri',
+};
+
+const FALLBACK_CANDIDATE: JsonSchema = {
+  ...object({
+    deviceId: string('Spotify device id'),
+    name: string('Exact device name (case-insensitive)'),
+    target: string('Transfer target name'),
+    rules: TARGET_RULES,
+  }),
+  description: 'Exactly one of deviceId, name, target or rules',
+};
+
+const FALLBACK_CONTENT: JsonSchema = {
+  ...object({
+    context_uri: { type: 'string', minLength: 1, description: 'Album, playlist or artist URI' },
+    uris: { ...arrayOf(string()), minItems: 1, description: 'Track or episode URIs' },
+    offset: { ...PLAY_OFFSET, description: 'Exactly one of position or uri within the context' },
+    position_ms: { type: 'integer', minimum: 0, description: 'Position in ms' },
+  }),
+  additionalProperties: false,
+  description: 'Started on the device when there is no session to transfer; context_uri or uris',
+};
+
+const VOLUME_OPTION: JsonSchema = {
+  description: 'Set after the transfer: 0-100, or "source" for the previous device\'s volume',
+};
+
+const TARGET_VOLUME: JsonSchema = {
+  type: 'integer',
+  minimum: 0,
+  maximum: 100,
+  description: 'Default volume, set after every transfer to the target',
+};
+
+const CALLBACK_URL = string(
+  'https URL (http only for localhost) that receives a signed POST when a background (202) ' +
+    'transfer settles'
+);
+
+export const TRANSFER_BODY = object({
+  deviceId: { type: 'string', minLength: 1, description: 'Spotify device id' },
+  devices: {
+    type: 'array',
+    items: FALLBACK_CANDIDATE,
+    minItems: 1,
+    maxItems: MAX_FALLBACK_CANDIDATES,
+    description: 'Fallback chain, instead of deviceId: the first available device wins',
+  },
+  play: { type: 'boolean', description: 'Start playback on the device (default true)' },
+  fallbackContent: FALLBACK_CONTENT,
+  volume: VOLUME_OPTION,
+  callbackUrl: CALLBACK_URL,
+});
+
+export const TRANSFER_TARGET_BODY = object({
+  play: { type: 'boolean', description: 'Start playback on the device (default true)' },
+  fallbackContent: FALLBACK_CONTENT,
+  volume: VOLUME_OPTION,
+  callbackUrl: CALLBACK_URL,
+});
+
+export const PLAYER_COMMAND_BODY = object({
+  deviceId: { type: 'string', minLength: 1, description: 'Device to control (default active)' },
+  context_uri: string('play: album, playlist or artist URI'),
+  uris: { ...arrayOf(string()), description: 'play: track or episode URIs' },
+  offset: { ...PLAY_OFFSET, description: 'play: exactly one of position or uri' },
+  position_ms: { type: 'integer', minimum: 0, description: 'play, seek: position in ms' },
+  volume_percent: { type: 'integer', minimum: 0, maximum: 100, description: 'volume' },
+  state: {
+    description: `shuffle: boolean; repeat: one of ${REPEAT_STATES.join(', ')}`,
+  },
+});
+
+export const TARGET_CREATE_BODY = object(
+  {
+    name: string('1-32 lowercase letters, digits, "-" or "_", starting with a letter or digit'),
+    rules: TARGET_RULES,
+    volume: TARGET_VOLUME,
+  },
+  ['name', 'rules']
+);
+
+export const TARGET_REPLACE_BODY = object(
+  { rules: TARGET_RULES, volume: TARGET_VOLUME },
+  ['rules']
+);
+
+export const DEVICE_VOLUME_BODY = object(
+  {
+    volume: {
+      type: 'integer',
+      minimum: 0,
+      maximum: 100,
+      description: 'Default volume, set after transfers to the device by id or fallback chain',
+    },
+  },
+  ['volume']
+);
+
+export const SCHEDULE_BODY = object(
+  {
+    name: nullableString(),
+    enabled: { type: 'boolean', description: 'Default true' },
+    time: string('"HH:MM", 24-hour, in the schedule\'s time zone'),
+    days: { ...arrayOf({ type: 'string', enum: WEEKDAYS }), description: 'Empty: every day' },
+    timezone: string('IANA time zone (default "UTC")'),
+    action: { type: 'string', enum: ['transfer', ...PLAYER_COMMANDS] },
+    deviceId: nullableString('Device for the action; transfers need this or target'),
+    target: nullableString('Transfer target name, resolved when the schedule runs'),
+    params: {
+      type: 'object',
+      description: 'transfer: { play? }; player commands: their body fields',
+    },
+  },
+  ['time', 'action']
+);
+
+export const API_KEY_BODY = object(
+  {
+    label: { type: 'string', minLength: 1, maxLength: MAX_LABEL_LENGTH },
+    scopes: { type: 'array', items: { type: 'string', enum: API_SCOPES }, minItems: 1 },
+    expiresInDays: {
+      type: 'number',
+      minimum: 0,
+      exclusiveMinimum: true,
+      nullable: true,
+      description: 'Omit or null for a key that never expires',
+    },
+  },
+  ['label', 'scopes']
+);
+
+// Responses
+
+const CANDIDATE_OUTCOMES: JsonSchema = {
+  ...arrayOf(
+    object({
+      candidate: FALLBACK_CANDIDATE,
+      status: { type: 'string', enum: ['chosen', 'skipped', 'failed', 'not_tried'] },
+      device: { ...object({ id: string(), name: string() }), nullable: true },
+      reason: nullableString('Why the candidate was skipped or failed'),
+    })
+  ),
+  description: 'Fallback chains only: what happened to each candidate, in order',
+};
+
+export const ERROR_RESPONSE = object({
+  ok: { type: 'boolean', enum: [false] },
+  error: object({ code: string(), message: string() }),
+  devices: {
+    ...arrayOf(object({ id: string(), name: string() })),
+    description: 'Candidate devices, when a target matched several',
+  },
+  loginUrl: string('Where to reconnect, for RECONNECT_REQUIRED'),
+  candidates: CANDIDATE_OUTCOMES,
+});
+
+const SUCCESS: Record<string, JsonSchema> = { success: { type: 'boolean', enum: [true] } };
+
+export const MESSAGE_RESPONSE = object({ ...SUCCESS, message: string() });
+
+export const DELETED_RESPONSE = object({ ...SUCCESS });
+
+const DEVICE = object({
+  id: string(),
+  is_active: { type: 'boolean' },
+  is_private_session: { type: 'boolean' },
+  is_restricted: { type: 'boolean' },
+  name: string(),
+  type: string(),
+  volume_percent: { type: 'integer', nullable: true },
+  supports_volume: { type: 'boolean' },
+});
+
+export const DEVICES_RESPONSE = object({ devices: arrayOf(DEVICE) });
+
+export const DEVICE_VOLUMES_RESPONSE = object({
+  volumes: {
+    type: 'object',
+    additionalProperties: { type: 'integer' },
+    description: 'Default volume by device id',
+  },
+});
+
+export const SAVED_DEVICE_VOLUME_RESPONSE = object({
+  ...SUCCESS,
+  deviceId: string(),
+  volume: { type: 'integer' },
+});
+
+const VERIFICATION: JsonSchema = {
+  ...object({
+    status: string(),
+    observedDevice: {
+      ...object({ id: string(), name: string(), is_playing: { type: 'boolean' } }),
+      nullable: true,
+    },
+    polls: { type: 'integer' },
+    elapsedMs: { type: 'integer' },
+  }),
+  description: 'Present when the transfer ran with ?verify=1',
+};
+
+const VOLUME_HANDOFF: JsonSchema = {
+  ...object({
+    status: { type: 'string', enum: ['set', 'unsupported', 'skipped', 'failed'] },
+    source: { type: 'string', enum: ['request', 'source_device', 'target', 'device'] },
+    percent: { type: 'integer', nullable: true },
+    reason: nullableString('Why the volume was not set'),
+  }),
+  description: 'Present when the request asked for a volume, or the target or device has one',
+};
+
+export const TRANSFER_RESPONSE = object({
+  ...SUCCESS,
+  message: string(),
+  device: {
+    ...object({ id: string(), name: string() }),
+    description: 'Target transfers and fallback chains only',
+  },
+  candidates: CANDIDATE_OUTCOMES,
+  startedFresh: {
+    type: 'boolean',
+    description: 'With fallbackContent: true when it was started because nothing was playing',
+  },
+  volume: VOLUME_HANDOFF,
+  verification: VERIFICATION,
+});
+
+export const TRANSFER_ACCEPTED_RESPONSE = object({
+  ...SUCCESS,
+  status: string(),
+  message: string(),
+  jobId: string(),
+  statusUrl: string('Poll this for the outcome'),
+});
+
+export const TRANSFER_JOB_RESPONSE = object({
+  job: object({
+    id: string(),
+    accountId: string(),
+    deviceId: nullableString(),
+    deviceName: nullableString(),
+    target: nullableString(),
+    status: string(),
+    attempts: { type: 'integer' },
+    lastSpotifyStatus: { type: 'integer', nullable: true },
+    startedFresh: { type: 'boolean', description: 'Fallback content is started, not transferred' },
+    error: { ...object({ code: string(), message: string() }), nullable: true },
+    verification: { ...VERIFICATION, nullable: true },
+    volume: { ...VOLUME_HANDOFF, nullable: true },
+    created_at: timestamp('Created'),
+    updated_at: timestamp('Last updated'),
+    completed_at: timestamp('Completed', true),
+    deadline_at: timestamp('Unfinished background work fails with TRANSFER_TIMEOUT after'),
+  }),
+});
+
+const HISTORY_DEVICE = object({ id: string(), name: nullableString() });
+
+export const HISTORY_RESPONSE = object({
+  transfers: arrayOf(
+    object({
+      at: timestamp('Finished'),
+      status: { type: 'string', enum: ['SUCCEEDED', 'FAILED'] },
+      caller: nullableString('API key label, "status page" or "schedule: <name>"'),
+      sourceDevice: { ...HISTORY_DEVICE, nullable: true },
+      deviceId: nullableString(),
+      deviceName: nullableString(),
+      target: nullableString(),
+      attempts: { type: 'integer' },
+      latency_ms: { type: 'integer', nullable: true },
+      code: nullableString('API error code when the transfer failed'),
+      message: string(),
+      jobId: nullableString(),
+    })
+  ),
+});
+
+export const PLAYBACK_RESPONSE = object({
+  playback: object({
+    state: { type: 'string', enum: ['PLAYING', 'PAUSED', 'NOTHING_PLAYING'] },
+    is_playing: { type: 'boolean' },
+    device: { ...DEVICE, nullable: true },
+    item: {
+      ...object({
+        type: { type: 'string', enum: ['track', 'episode'] },
+        uri: string(),
+        title: string(),
+        artists: arrayOf(string()),
+        album: nullableString(),
+        album_art_url: nullableString(),
+      }),
+      nullable: true,
+    },
+    progress_ms: { type: 'integer', nullable: true },
+    duration_ms: { type: 'integer', nullable: true },
+    shuffle_state: { type: 'boolean' },
+    repeat_state: { type: 'string', enum: REPEAT_STATES },
+  }),
+});
+
+const SCHEDULE: JsonSchema = {
+  ...SCHEDULE_BODY,
+  properties: {
+    id: string(),
+    ...SCHEDULE_BODY.properties,
+    lastRun: {
+      ...object({
+        at: timestamp('Ran'),
+        status: { type: 'string', enum: ['SUCCEEDED', 'FAILED'] },
+        code: nullableString(),
+        message: string(),
+        deviceId: nullableString(),
+      }),
+      nullable: true,
+    },
+    created_at: timestamp('Created'),
+    updated_at: timestamp('Last updated'),
+  },
+  required: undefined,
+};
+
+export const SCHEDULES_RESPONSE = object({ schedules: arrayOf(SCHEDULE) });
+
+export const SCHEDULE_RESPONSE = object({ schedule: SCHEDULE });
+
+export const SAVED_SCHEDULE_RESPONSE = object({ ...SUCCESS, schedule: SCHEDULE });
+
+const TARGET = object({
+  name: string(),
+  rules: TARGET_RULES,
+  volume: TARGET_VOLUME,
+  builtin: { type: 'boolean', description: 'Built-in target that has not been overridden' },
+});
+
+export const TARGETS_RESPONSE = object({
+  targets: arrayOf(TARGET),
+  warnings: {
+    ...arrayOf(string()),
+    description: 'Stored targets whose name is reserved; absent when there are none',
+  },
+});
+
+export const TARGET_RESPONSE = object({ target: TARGET });
+
+export const SAVED_TARGET_RESPONSE = object({ ...SUCCESS, target: TARGET });
+
+const API_KEY = object({
+  id: string(),
+  label: string(),
+  scopes: arrayOf({ type: 'string', enum: API_SCOPES }),
+  created_at: timestamp('Created'),
+  expires_at: timestamp('Expires', true),
+  last_used_at: timestamp('Last used', true),
+  revoked_at: timestamp('Revoked', true),
+});
+
+export const API_KEYS_RESPONSE = object({ ...SUCCESS, keys: arrayOf(API_KEY) });
+
+export const API_KEY_RESPONSE = object({ ...SUCCESS, key: API_KEY });
+
+export const ISSUED_API_KEY_RESPONSE = object({
+  ...SUCCESS,
+  automationKey: string('The key itself; it is only ever returned here'),
+  key: API_KEY,
+});
+
+export const DISCONNECTED_RESPONSE = object({ ...SUCCESS, message: string(), loginUrl: string() });
+
+export const HEALTH_RESPONSE = object({ ok: { type: 'boolean', enum: [true] } });
+
+export const DEEP_HEALTH_RESPONSE = object({
+  status: { type: 'string', enum: ['ok', 'degraded', 'down'] },
+  accountId: nullableString('null when no account is connected yet'),
+  checks: arrayOf(
+    object({
+      name: string(),
+      status: { type: 'string', enum: ['ok', 'warn', 'fail', 'skipped'] },
+      latency_ms: { type: 'integer' },
+      message: string(),
+      problems: arrayOf(string()),
+    })
+  ),
+});
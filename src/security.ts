@@ -1,36 +1,111 @@
 /**
- * Security helpers: automation key validation, OAuth state management, cookie helpers
+ * Security helpers: automation key generation and validation, OAuth state and PKCE
+ * management, cookie helpers, HTML escaping
  */
 
 import { Env } from './storage';
 
 /**
- * Check if the request has a valid automation key
+ * Compare two secrets in constant time (for equal-length inputs), so response timing
+ * does not reveal how many leading characters of a guess were right
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  const aBytes = new TextEncoder().encode(a);
+  const bBytes = new TextEncoder().encode(b);
+  const length = Math.max(aBytes.length, bBytes.length);
+
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < length; i++) {
+    diff |= (aBytes[i] ?? 0) ^ (bBytes[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Check if the request carries the deployment-wide (admin) automation key
  */
 export function checkAutomationKey(request: Request, env: Env): boolean {
   const providedKey = request.headers.get('X-Automation-Key');
-  return providedKey === env.AUTOMATION_KEY;
+  if (!providedKey || !env.AUTOMATION_KEY) {
+    return false;
+  }
+  return constantTimeEqual(providedKey, env.AUTOMATION_KEY);
 }
 
 /**
- * Generate a random state string for OAuth CSRF protection
- * Uses Web Crypto API to generate 32 random bytes, encoded as base64url
+ * Encode bytes as base64url (base64 but URL-safe, without padding)
  */
-export function generateState(): string {
-  const array = new Uint8Array(32);
-  crypto.getRandomValues(array);
-  
-  // Convert to base64url (base64 but URL-safe)
+function toBase64Url(bytes: Uint8Array): string {
   let base64 = '';
-  for (let i = 0; i < array.length; i++) {
-    base64 += String.fromCharCode(array[i]);
+  for (let i = 0; i < bytes.length; i++) {
+    base64 += String.fromCharCode(bytes[i]);
   }
-  const base64url = btoa(base64)
+  return btoa(base64)
     .replace(/\+/g, '-')
     .replace(/\//g, '_')
     .replace(/=/g, '');
-  
-  return base64url;
+}
+
+/**
+ * Generate `byteLength` random bytes, encoded as base64url
+ */
+function randomBase64Url(byteLength: number): string {
+  const array = new Uint8Array(byteLength);
+  crypto.getRandomValues(array);
+  return toBase64Url(array);
+}
+
+/**
+ * Generate a random state string for OAuth CSRF protection
+ * Uses Web Crypto API to generate 32 random bytes, encoded as base64url
+ */
+export function generateState(): string {
+  return randomBase64Url(32);
+}
+
+/**
+ * Generate a random PKCE code verifier (RFC 7636 allows 43-128 characters)
+ */
+export function generateCodeVerifier(): string {
+  return randomBase64Url(64);
+}
+
+/**
+ * Derive the S256 PKCE code challenge from a verifier: base64url(SHA-256(verifier))
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * Generate a random API key
+ */
+export function generateAutomationKey(): string {
+  return randomBase64Url(32);
+}
+
+/**
+ * Hash an automation key for storage (SHA-256, hex encoded)
+ * Keys are never stored in plain text, only looked up by hash
+ */
+export async function hashAutomationKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Escape text for safe interpolation into HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
 }
 
 /**
@@ -53,21 +128,44 @@ function parseCookies(cookieHeader: string | null): Record<string, string> {
   return cookies;
 }
 
+/**
+ * Split the OAuth state cookie into the state and, in PKCE mode, the code verifier.
+ * Both are base64url, so "." can separate them.
+ */
+function parseStateCookie(request: Request): { state: string; codeVerifier: string | null } | null {
+  const cookieHeader = request.headers.get('Cookie');
+  const value = parseCookies(cookieHeader).oauth_state;
+  if (!value) {
+    return null;
+  }
+
+  const [state, codeVerifier] = value.split('.');
+  return { state, codeVerifier: codeVerifier || null };
+}
+
 /**
  * Get the OAuth state from the request cookie
  */
 export function getStateCookie(request: Request): string | null {
-  const cookieHeader = request.headers.get('Cookie');
-  const cookies = parseCookies(cookieHeader);
-  return cookies.oauth_state || null;
+  return parseStateCookie(request)?.state || null;
+}
+
+/**
+ * Get the PKCE code verifier bound to the OAuth state cookie
+ */
+export function getCodeVerifierCookie(request: Request): string | null {
+  return parseStateCookie(request)?.codeVerifier ?? null;
 }
 
 /**
  * Create a Set-Cookie header value for the OAuth state
+ * In PKCE mode the code verifier travels in the same cookie, so it can only be used
+ * together with the state it was generated for
  */
-export function createStateCookie(state: string): string {
+export function createStateCookie(state: string, codeVerifier?: string | null): string {
   const maxAge = 600; // 10 minutes in seconds
-  return `oauth_state=${state}; HttpOnly; Secure; SameSite=Lax; Max-Age=${maxAge}; Path=/`;
+  const value = codeVerifier ? `${state}.${codeVerifier}` : state;
+  return `oauth_state=${value}; HttpOnly; Secure; SameSite=Lax; Max-Age=${maxAge}; Path=/`;
 }
 
 /**
@@ -77,6 +175,21 @@ export function clearStateCookie(): string {
   return `oauth_state=; HttpOnly; Secure; SameSite=Lax; Max-Age=0; Path=/`;
 }
 
+/**
+ * Get the status page session id from the request cookie
+ */
+export function getSessionCookie(request: Request): string | null {
+  const cookieHeader = request.headers.get('Cookie');
+  return parseCookies(cookieHeader).status_session || null;
+}
+
+/**
+ * Create a Set-Cookie header value for a status page session
+ */
+export function createSessionCookie(sessionId: string, maxAge: number): string {
+  return `status_session=${sessionId}; HttpOnly; Secure; SameSite=Lax; Max-Age=${maxAge}; Path=/`;
+}
+
 /**
  * Validate that the stored state matches the received state
  */
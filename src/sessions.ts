@@ -0,0 +1,50 @@
+/**
+ * Browser sessions for the status page
+ *
+ * A session is created when an account connects via /login, so the person who just
+ * signed in with Spotify can open /status without an automation key. Only the SHA-256
+ * hash of the session id is stored, under `session:<hash>`, and KV expires it.
+ */
+
+import { Env } from './storage';
+import { generateState, hashAutomationKey } from './security';
+
+export interface Session {
+  accountId: string;
+  created_at: number; // Unix timestamp in seconds
+}
+
+const SESSION_KEY_PREFIX = 'session:';
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Start a session for an account
+ * Returns the plain session id, to be sent to the browser in the session cookie
+ */
+export async function createSession(env: Env, accountId: string): Promise<string> {
+  const sessionId = generateState();
+  const session: Session = { accountId, created_at: Math.floor(Date.now() / 1000) };
+
+  await env.TOKENS_KV.put(
+    `${SESSION_KEY_PREFIX}${await hashAutomationKey(sessionId)}`,
+    JSON.stringify(session),
+    { expirationTtl: SESSION_TTL_SECONDS }
+  );
+
+  return sessionId;
+}
+
+/**
+ * Look up the session for a session id from a cookie
+ */
+export async function readSession(env: Env, sessionId: string): Promise<Session | null> {
+  try {
+    const data = await env.TOKENS_KV.get(
+      `${SESSION_KEY_PREFIX}${await hashAutomationKey(sessionId)}`
+    );
+    return data ? (JSON.parse(data) as Session) : null;
+  } catch (error) {
+    console.error('Error reading session from KV:', error);
+    return null;
+  }
+}
@@ -2,16 +2,77 @@
  * Spotify API client: OAuth URL building, token exchange, refresh, and API fetching
  */
 
-import { Env, Tokens, readTokens, writeTokens } from './storage';
+import { Env, Tokens, deleteTokens, readTokens, writeTokens } from './storage';
 
-const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
-const SPOTIFY_TOKEN_URL = 'https://accounts.spotify.com/api/token';
-const SPOTIFY_AUTH_URL = 'https://accounts.spotify.com/authorize';
+const DEFAULT_SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
+const DEFAULT_SPOTIFY_TOKEN_URL = 'https://accounts.spotify.com/api/token';
+const DEFAULT_SPOTIFY_AUTH_URL = 'https://accounts.spotify.com/authorize';
+
+/**
+ * Spotify endpoints, overridable via env to point the worker at a fake Spotify
+ * (see emulator.ts)
+ */
+function spotifyApiBase(env: Env): string {
+  return (env.SPOTIFY_API_BASE || DEFAULT_SPOTIFY_API_BASE).replace(/\/+$/, '');
+}
+
+function spotifyTokenUrl(env: Env): string {
+  return env.SPOTIFY_TOKEN_URL || DEFAULT_SPOTIFY_TOKEN_URL;
+}
+
+function spotifyAuthUrl(env: Env): string {
+  return env.SPOTIFY_AUTH_URL || DEFAULT_SPOTIFY_AUTH_URL;
+}
+
+// Spotify API types
+export interface SpotifyDevice {
+  id: string;
+  is_active: boolean;
+  is_private_session: boolean;
+  is_restricted: boolean;
+  name: string;
+  type: string;
+  volume_percent: number | null;
+  supports_volume: boolean; // Whether the device's volume can be set through the Web API
+}
+
+export interface DevicesResponse {
+  devices: SpotifyDevice[];
+}
+
+// Tokens read during one request, per account. Keyed by the request's Env copy
+// (see withTokenCache), so entries go away with the request.
+const requestTokenCaches = new WeakMap<Env, Map<string, Promise<Tokens | null>>>();
+
+// Refreshes in flight in this isolate, per account; concurrent callers share one
+const inFlightRefreshes = new Map<string, Promise<Tokens>>();
+
+const TOKEN_EXPIRY_MARGIN_SECONDS = 60;
+
+/**
+ * Thrown when Spotify rejects a refresh token (`invalid_grant`), e.g. because the user
+ * removed the app's access. The tokens are dead; the user has to log in again.
+ */
+export class ReconnectRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReconnectRequiredError';
+  }
+}
+
+/**
+ * Check whether the worker runs as a public client (Authorization Code + PKCE).
+ * That is the case whenever no client secret is configured.
+ */
+export function usesPkce(env: Env): boolean {
+  return !env.SPOTIFY_CLIENT_SECRET;
+}
 
 /**
  * Build Spotify OAuth authorization URL
+ * `codeChallenge` is the S256 PKCE challenge, required in PKCE mode
  */
-export function buildAuthorizeUrl(state: string, env: Env): string {
+export function buildAuthorizeUrl(state: string, env: Env, codeChallenge?: string): string {
   const params = new URLSearchParams({
     response_type: 'code',
     client_id: env.SPOTIFY_CLIENT_ID,
@@ -20,39 +81,66 @@ export function buildAuthorizeUrl(state: string, env: Env): string {
     state: state,
   });
 
-  return `${SPOTIFY_AUTH_URL}?${params.toString()}`;
+  if (codeChallenge) {
+    params.set('code_challenge_method', 'S256');
+    params.set('code_challenge', codeChallenge);
+  }
+
+  return `${spotifyAuthUrl(env)}?${params.toString()}`;
+}
+
+/**
+ * Build a request to the token endpoint
+ * Confidential clients authenticate with Basic auth; PKCE clients send only their
+ * client_id in the body
+ */
+function tokenRequest(params: Record<string, string>, env: Env): RequestInit {
+  const clientId = env.SPOTIFY_CLIENT_ID;
+  const clientSecret = env.SPOTIFY_CLIENT_SECRET;
+
+  if (!clientId) {
+    throw new Error('Spotify client id not configured');
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+  };
+  const body = new URLSearchParams(params);
+
+  if (clientSecret) {
+    // Create Basic Auth header using btoa (Web API equivalent of Buffer.from().toString('base64'))
+    headers['Authorization'] = `Basic ${btoa(`${clientId}:${clientSecret}`)}`;
+  } else {
+    body.set('client_id', clientId);
+  }
+
+  return { method: 'POST', headers, body };
 }
 
 /**
  * Exchange authorization code for access and refresh tokens
+ * `codeVerifier` is the PKCE verifier from login, required in PKCE mode
  */
 export async function exchangeCodeForTokens(
   code: string,
   redirectUri: string,
-  env: Env
+  env: Env,
+  codeVerifier?: string | null
 ): Promise<Tokens> {
-  const clientId = env.SPOTIFY_CLIENT_ID;
-  const clientSecret = env.SPOTIFY_CLIENT_SECRET;
+  const params: Record<string, string> = {
+    grant_type: 'authorization_code',
+    code: code,
+    redirect_uri: redirectUri,
+  };
 
-  if (!clientId || !clientSecret) {
-    throw new Error('Spotify client credentials not configured');
+  if (usesPkce(env)) {
+    if (!codeVerifier) {
+      throw new Error('PKCE code verifier missing; restart the login');
+    }
+    params.code_verifier = codeVerifier;
   }
 
-  // Create Basic Auth header using btoa (Web API equivalent of Buffer.from().toString('base64'))
-  const credentials = btoa(`${clientId}:${clientSecret}`);
-
-  const response = await fetch(SPOTIFY_TOKEN_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      'Authorization': `Basic ${credentials}`,
-    },
-    body: new URLSearchParams({
-      grant_type: 'authorization_code',
-      code: code,
-      redirect_uri: redirectUri,
-    }),
-  });
+  const response = await fetch(spotifyTokenUrl(env), tokenRequest(params, env));
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({}));
@@ -65,39 +153,49 @@ export async function exchangeCodeForTokens(
     access_token: data.access_token,
     refresh_token: data.refresh_token,
     expires_at: Math.floor(Date.now() / 1000) + (data.expires_in || 3600),
+    issued_at: Math.floor(Date.now() / 1000),
   };
 }
 
 /**
- * Refresh access token using refresh token
+ * Fetch the Spotify profile of the user that owns an access token
+ * Used after login to decide which account the tokens belong to
  */
-export async function refreshAccessToken(
-  refreshToken: string,
+export async function fetchCurrentUser(
+  accessToken: string,
   env: Env
-): Promise<Tokens> {
-  const clientId = env.SPOTIFY_CLIENT_ID;
-  const clientSecret = env.SPOTIFY_CLIENT_SECRET;
+): Promise<{ id: string; display_name: string | null }> {
+  const response = await fetch(`${spotifyApiBase(env)}/me`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
 
-  if (!clientId || !clientSecret) {
-    throw new Error('Spotify client credentials not configured');
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Spotify profile: ${response.status}`);
   }
 
-  const credentials = btoa(`${clientId}:${clientSecret}`);
+  const data = await response.json<{ id: string; display_name?: string | null }>();
 
-  const response = await fetch(SPOTIFY_TOKEN_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      'Authorization': `Basic ${credentials}`,
-    },
-    body: new URLSearchParams({
-      grant_type: 'refresh_token',
-      refresh_token: refreshToken,
-    }),
-  });
+  return { id: data.id, display_name: data.display_name ?? null };
+}
+
+/**
+ * Refresh access token using refresh token
+ */
+export async function refreshAccessToken(refreshToken: string, env: Env): Promise<Tokens> {
+  const response = await fetch(
+    spotifyTokenUrl(env),
+    tokenRequest({ grant_type: 'refresh_token', refresh_token: refreshToken }, env)
+  );
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({}));
+    const error = await response
+      .json<{ error?: string; error_description?: string }>()
+      .catch(() => ({}) as { error?: string; error_description?: string });
+    if (error.error === 'invalid_grant') {
+      throw new ReconnectRequiredError(
+        `Refresh token rejected: ${error.error_description ?? 'invalid_grant'}`
+      );
+    }
     throw new Error(`Token refresh failed: ${response.status} ${JSON.stringify(error)}`);
   }
 
@@ -105,41 +203,159 @@ export async function refreshAccessToken(
 
   // Spotify may or may not return a new refresh_token
   // If not provided, we need to keep the old one
-  // But we need to read the current tokens to get the refresh_token
-  const currentTokens = await readTokens(env);
-
   return {
     access_token: data.access_token,
-    refresh_token: data.refresh_token || currentTokens?.refresh_token || refreshToken,
+    refresh_token: data.refresh_token || refreshToken,
     expires_at: Math.floor(Date.now() / 1000) + (data.expires_in || 3600),
+    issued_at: Math.floor(Date.now() / 1000),
   };
 }
 
+/**
+ * Give a request its own token cache
+ * Returns a copy of `env` that identifies the request: tokens read through it are read
+ * from KV at most once, however many Spotify calls the request makes.
+ */
+export function withTokenCache(env: Env): Env {
+  const scoped = { ...env };
+  requestTokenCaches.set(scoped, new Map());
+  return scoped;
+}
+
+/**
+ * Read an account's stored tokens, from the request's token cache when it has one
+ */
+export function getStoredTokens(env: Env, accountId: string): Promise<Tokens | null> {
+  const cache = requestTokenCaches.get(env);
+  if (!cache) {
+    return readTokens(env, accountId);
+  }
+
+  let tokens = cache.get(accountId);
+  if (!tokens) {
+    tokens = readTokens(env, accountId);
+    cache.set(accountId, tokens);
+  }
+  return tokens;
+}
+
+/**
+ * Whether an access token has expired or is about to
+ */
+export function isExpiring(tokens: Tokens): boolean {
+  return tokens.expires_at <= Math.floor(Date.now() / 1000) + TOKEN_EXPIRY_MARGIN_SECONDS;
+}
+
+/**
+ * Store refreshed tokens unless KV already holds newer ones
+ * (another isolate may have refreshed while this one waited on Spotify)
+ * Returns whichever tokens are now current
+ */
+async function writeTokensIfNewer(env: Env, accountId: string, tokens: Tokens): Promise<Tokens> {
+  const current = await readTokens(env, accountId);
+  if (current && current.expires_at > tokens.expires_at) {
+    return current;
+  }
+
+  await writeTokens(tokens, env, accountId);
+  return tokens;
+}
+
+/**
+ * Delete tokens whose refresh token Spotify rejected
+ * If KV meanwhile holds a different refresh token (another isolate refreshed and
+ * rotated it), those tokens are kept and returned instead
+ */
+async function clearRejectedTokens(
+  env: Env,
+  accountId: string,
+  rejectedRefreshToken: string
+): Promise<Tokens | null> {
+  const current = await readTokens(env, accountId);
+  if (current && current.refresh_token !== rejectedRefreshToken) {
+    return current;
+  }
+
+  console.warn(`Spotify rejected the refresh token for ${accountId}; clearing stored tokens`);
+  await deleteTokens(env, accountId);
+  return null;
+}
+
+/**
+ * Replace an account's `stale` tokens with fresh ones
+ * Concurrent refreshes for the same account share one in-flight promise. KV is checked
+ * first, so tokens another request already refreshed are reused without a token call.
+ */
+async function refreshTokens(env: Env, accountId: string, stale: Tokens): Promise<Tokens> {
+  let refresh = inFlightRefreshes.get(accountId);
+
+  if (!refresh) {
+    refresh = (async () => {
+      const latest = await readTokens(env, accountId);
+      if (latest && latest.access_token !== stale.access_token && !isExpiring(latest)) {
+        return latest;
+      }
+
+      const refreshToken = (latest ?? stale).refresh_token;
+      try {
+        const refreshed = await refreshAccessToken(refreshToken, env);
+        return await writeTokensIfNewer(env, accountId, refreshed);
+      } catch (error) {
+        const rotated =
+          error instanceof ReconnectRequiredError
+            ? await clearRejectedTokens(env, accountId, refreshToken)
+            : null;
+        if (rotated) {
+          return rotated;
+        }
+        throw error;
+      }
+    })().finally(() => inFlightRefreshes.delete(accountId));
+    inFlightRefreshes.set(accountId, refresh);
+  }
+
+  try {
+    const tokens = await refresh;
+    requestTokenCaches.get(env)?.set(accountId, Promise.resolve(tokens));
+    return tokens;
+  } catch (error) {
+    if (error instanceof ReconnectRequiredError) {
+      requestTokenCaches.get(env)?.set(accountId, Promise.resolve(null));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get an account's tokens, refreshing them first only when the access token is expiring
+ * Unlike getAccessToken, a failed refresh throws, so callers can report why.
+ * Returns null when the account has no stored tokens.
+ */
+export async function getFreshTokens(env: Env, accountId: string): Promise<Tokens | null> {
+  const tokens = await getStoredTokens(env, accountId);
+  return tokens && isExpiring(tokens) ? refreshTokens(env, accountId, tokens) : tokens;
+}
+
 /**
  * Get access token, refreshing if needed
  * Checks if token is expired or expiring within 60 seconds
  */
-export async function getAccessToken(env: Env): Promise<string | null> {
-  const tokens = await readTokens(env);
+export async function getAccessToken(env: Env, accountId: string): Promise<string | null> {
+  const tokens = await getStoredTokens(env, accountId);
 
   if (!tokens) {
     return null;
   }
 
   // Check if token is expired or expiring within 60 seconds
-  const now = Math.floor(Date.now() / 1000);
-  const expiresIn = tokens.expires_at - now;
-
-  if (tokens.expires_at > now + 60) {
+  if (!isExpiring(tokens)) {
     // Token is still valid
     return tokens.access_token;
   }
 
   // Token needs refresh
   try {
-    const newTokens = await refreshAccessToken(tokens.refresh_token, env);
-    await writeTokens(newTokens, env);
-    return newTokens.access_token;
+    return (await refreshTokens(env, accountId, tokens)).access_token;
   } catch (error) {
     console.error('Error refreshing token:', error);
     return null;
@@ -153,16 +369,17 @@ export async function getAccessToken(env: Env): Promise<string | null> {
 export async function spotifyFetch(
   path: string,
   options: RequestInit,
-  env: Env
+  env: Env,
+  accountId: string
 ): Promise<Response> {
   // Ensure we have a valid access token
-  let accessToken = await getAccessToken(env);
+  let accessToken = await getAccessToken(env, accountId);
 
   if (!accessToken) {
     throw new Error('No access token available');
   }
 
-  const url = path.startsWith('http') ? path : `${SPOTIFY_API_BASE}${path}`;
+  const url = path.startsWith('http') ? path : `${spotifyApiBase(env)}${path}`;
 
   // Make the request with Authorization header
   const response = await fetch(url, {
@@ -176,15 +393,17 @@ export async function spotifyFetch(
 
   // If 401, try refreshing token and retry once
   if (response.status === 401) {
-    const tokens = await readTokens(env);
+    const tokens = await getStoredTokens(env, accountId);
     if (!tokens) {
       return response;
     }
 
     try {
-      const newTokens = await refreshAccessToken(tokens.refresh_token, env);
-      await writeTokens(newTokens, env);
-      const refreshedToken = newTokens.access_token;
+      // Another call in this request may already have replaced the rejected token
+      const refreshedToken =
+        tokens.access_token !== accessToken
+          ? tokens.access_token
+          : (await refreshTokens(env, accountId, tokens)).access_token;
 
       // Retry with new token
       return fetch(url, {
@@ -196,6 +415,10 @@ export async function spotifyFetch(
         },
       });
     } catch (error) {
+      // A rejected refresh token is final: the caller has to send the user to /login
+      if (error instanceof ReconnectRequiredError) {
+        throw error;
+      }
       // Refresh failed, return original response
       return response;
     }
@@ -205,28 +428,121 @@ export async function spotifyFetch(
 }
 
 /**
- * Check if error response indicates Premium is required
+ * What went wrong in a failed Spotify Web API call
  */
-export function isPremiumRequiredError(response: Response): boolean {
-  return response.status === 403;
+export type SpotifyErrorKind =
+  | 'PREMIUM_REQUIRED'
+  | 'DEVICE_RESTRICTED' // The device does not allow remote control (or volume control)
+  | 'DEVICE_NOT_FOUND'
+  | 'NO_ACTIVE_DEVICE'
+  | 'COMMAND_NOT_ALLOWED' // Not possible in the current playback state, e.g. already paused
+  | 'INSUFFICIENT_SCOPE' // The OAuth grant lacks a scope the endpoint needs
+  | 'UNAUTHORIZED' // The access token was rejected, even after a refresh
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'BAD_REQUEST'
+  | 'UNKNOWN';
+
+export interface SpotifyError {
+  kind: SpotifyErrorKind;
+  status: number; // HTTP status Spotify returned
+  reason: string | null; // Spotify's error.reason for player endpoints, e.g. "NO_ACTIVE_DEVICE"
+  message: string; // Spotify's error.message, or the status line when there is none
+  retryAfter: number | null; // Seconds, from Retry-After on 429s
+}
+
+// Player endpoints return one of Spotify's player error reasons alongside the message
+const DEVICE_RESTRICTED_REASONS = [
+  'DEVICE_NOT_CONTROLLABLE',
+  'REMOTE_CONTROL_DISALLOW',
+  'VOLUME_CONTROL_DISALLOW',
+];
+const COMMAND_NOT_ALLOWED_REASONS = [
+  'NO_PREV_TRACK',
+  'NO_NEXT_TRACK',
+  'NO_SPECIFIC_TRACK',
+  'ALREADY_PAUSED',
+  'NOT_PAUSED',
+  'NOT_PLAYING_LOCALLY',
+  'NOT_PLAYING_TRACK',
+  'NOT_PLAYING_CONTEXT',
+  'ENDLESS_CONTEXT',
+  'CONTEXT_DISALLOW',
+  'ALREADY_PLAYING',
+];
+
+function parseRetryAfter(response: Response): number | null {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : null;
+}
+
+function classifyErrorKind(
+  status: number,
+  reason: string | null,
+  message: string
+): SpotifyErrorKind {
+  const text = message.toLowerCase();
+
+  if (status === 429 || reason === 'RATE_LIMITED') {
+    return 'RATE_LIMITED';
+  }
+  if (status >= 500) {
+    return 'UPSTREAM_UNAVAILABLE';
+  }
+  if (status === 401) {
+    return 'UNAUTHORIZED';
+  }
+  if (reason === 'PREMIUM_REQUIRED' || text.includes('premium required')) {
+    return 'PREMIUM_REQUIRED';
+  }
+  if (reason === 'NO_ACTIVE_DEVICE' || text.includes('no active device')) {
+    return 'NO_ACTIVE_DEVICE';
+  }
+  if (reason !== null && DEVICE_RESTRICTED_REASONS.includes(reason)) {
+    return 'DEVICE_RESTRICTED';
+  }
+  if (reason !== null && COMMAND_NOT_ALLOWED_REASONS.includes(reason)) {
+    return 'COMMAND_NOT_ALLOWED';
+  }
+  if (text.includes('insufficient client scope')) {
+    return 'INSUFFICIENT_SCOPE';
+  }
+  if (text.includes('restriction violated')) {
+    return 'COMMAND_NOT_ALLOWED';
+  }
+  if (status === 404) {
+    return text.includes('device not found') ? 'DEVICE_NOT_FOUND' : 'NO_ACTIVE_DEVICE';
+  }
+  if (status === 400) {
+    return 'BAD_REQUEST';
+  }
+  return 'UNKNOWN';
 }
 
 /**
- * Extract error message from Spotify API response
+ * Classify a failed Spotify Web API response from its status and error body
+ * ({ error: { status, message, reason? } }). Reads the response body.
  */
-export async function getSpotifyErrorMessage(response: Response): Promise<string> {
+export async function classifySpotifyError(response: Response): Promise<SpotifyError> {
+  let reason: string | null = null;
+  let message = `Spotify API error: ${response.status} ${response.statusText}`.trim();
+
   try {
-    const data = await response.json();
+    const data = await response.json<{ error?: { message?: string; reason?: string } }>();
+    reason = data.error?.reason ?? null;
     if (data.error?.message) {
-      return data.error.message;
-    }
-    if (data.error?.status === 403) {
-      return 'Spotify Premium is required for playback control';
+      message = data.error.message;
     }
   } catch {
-    // Ignore JSON parse errors
+    // Ignore bodies that are empty or not JSON
   }
 
-  return `Spotify API error: ${response.status} ${response.statusText}`;
+  return {
+    kind: classifyErrorKind(response.status, reason, message),
+    status: response.status,
+    reason,
+    message,
+    retryAfter: response.status === 429 ? parseRetryAfter(response) : null,
+  };
 }
 
@@ -0,0 +1,254 @@
+/**
+ * Server-rendered HTML for the /status page
+ * Rendered from the same data the JSON APIs return; index.ts gathers it
+ */
+
+import { Account } from './accounts';
+import { TransferRecord } from './history';
+import { escapeHtml } from './security';
+import { SpotifyDevice } from './spotify';
+import { Tokens } from './storage';
+
+export interface StatusPageData {
+  accountId: string;
+  account: Account | null;
+  tokens: Tokens | null;
+  devices: SpotifyDevice[] | null; // null when the device list could not be fetched
+  devicesError: string | null;
+  history: TransferRecord[];
+  canTransfer: boolean; // Whether the caller may use the transfer buttons
+  notice: { ok: boolean; message: string } | null; // Outcome of a transfer button press
+}
+
+const STATUS_HISTORY_LIMIT = 10;
+
+const STYLES = `
+  body {
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+    background-color: #f5f5f5;
+    margin: 0;
+    padding: 24px;
+    color: #333;
+  }
+  .container {
+    max-width: 760px;
+    margin: 0 auto;
+  }
+  section {
+    background: white;
+    padding: 20px 24px;
+    border-radius: 8px;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.1);
+    margin-bottom: 20px;
+  }
+  h1 { color: #1db954; }
+  h2 { margin-top: 0; font-size: 1.1em; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #eee; }
+  .muted { color: #888; }
+  .ok { color: #155724; }
+  .failed { color: #721c24; }
+  .notice { padding: 12px; border-radius: 4px; margin-bottom: 20px; }
+  .notice.ok { background-color: #d4edda; border: 1px solid #c3e6cb; }
+  .notice.failed { background-color: #f8d7da; border: 1px solid #f5c6cb; }
+  button {
+    background-color: #1db954;
+    color: white;
+    border: none;
+    border-radius: 16px;
+    padding: 6px 14px;
+    cursor: pointer;
+  }
+`;
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().replace('T', ' ').slice(0, 19) + ' UTC';
+}
+
+function formatRelative(timestamp: number, now: number): string {
+  const minutes = Math.round((timestamp - now) / 60);
+  if (minutes === 0) {
+    return 'now';
+  }
+  return minutes > 0 ? `in ${minutes} min` : `${-minutes} min ago`;
+}
+
+function renderAccount(data: StatusPageData, now: number): string {
+  const name = data.account?.display_name || data.accountId;
+  const tokens = data.tokens;
+
+  const tokenRows = tokens
+    ? `
+      <tr><th>Access token expires</th>
+        <td>${formatTime(tokens.expires_at)}
+          <span class="muted">(${formatRelative(tokens.expires_at, now)})</span></td></tr>
+      <tr><th>Last refresh</th>
+        <td>${
+          tokens.issued_at
+            ? `${formatTime(tokens.issued_at)}
+          <span class="muted">(${formatRelative(tokens.issued_at, now)})</span>`
+            : '<span class="muted">unknown</span>'
+        }</td></tr>`
+    : `
+      <tr><th>Tokens</th>
+        <td class="failed">Not connected. <a href="/login">Connect Spotify</a></td></tr>`;
+
+  return `
+    <section>
+      <h2>Account</h2>
+      <table>
+        <tr><th>Spotify account</th>
+          <td>
+            ${escapeHtml(name)} <span class="muted">(${escapeHtml(data.accountId)})</span>
+          </td></tr>
+        ${tokenRows}
+      </table>
+    </section>`;
+}
+
+function renderDevices(data: StatusPageData): string {
+  if (!data.devices) {
+    return `
+    <section>
+      <h2>Devices</h2>
+      <p class="failed">${escapeHtml(data.devicesError ?? 'Could not fetch devices.')}</p>
+    </section>`;
+  }
+
+  if (data.devices.length === 0) {
+    return `
+    <section>
+      <h2>Devices</h2>
+      <p class="muted">No devices available. Open Spotify on a device and refresh.</p>
+    </section>`;
+  }
+
+  const rows = data.devices
+    .map((device) => {
+      const button =
+        data.canTransfer && !device.is_restricted
+          ? `<form method="POST" action="/status/transfer">
+              <input type="hidden" name="deviceId" value="${escapeHtml(device.id)}">
+              <button type="submit">Transfer here</button>
+            </form>`
+          : '';
+      return `
+        <tr>
+          <td>
+            ${escapeHtml(device.name)}${device.is_active ? ' <b class="ok">(active)</b>' : ''}
+          </td>
+          <td>${escapeHtml(device.type)}</td>
+          <td>${device.volume_percent !== null ? `${device.volume_percent}%` : '—'}</td>
+          <td>${button}</td>
+        </tr>`;
+    })
+    .join('');
+
+  return `
+    <section>
+      <h2>Devices</h2>
+      <table>
+        <tr><th>Name</th><th>Type</th><th>Volume</th><th></th></tr>
+        ${rows}
+      </table>
+    </section>`;
+}
+
+function renderHistory(data: StatusPageData): string {
+  const records = data.history.slice(0, STATUS_HISTORY_LIMIT);
+  if (records.length === 0) {
+    return `
+    <section>
+      <h2>Recent transfers</h2>
+      <p class="muted">No transfers yet.</p>
+    </section>`;
+  }
+
+  const rows = records
+    .map((record) => {
+      const device = record.deviceName ?? record.deviceId ?? record.target ?? '—';
+      const source = record.sourceDevice
+        ? `<br><span class="muted">from ${escapeHtml(
+            record.sourceDevice.name ?? record.sourceDevice.id
+          )}</span>`
+        : '';
+      const caller = record.caller
+        ? `<br><span class="muted">by ${escapeHtml(record.caller)}</span>`
+        : '';
+      const outcome =
+        record.status === 'SUCCEEDED'
+          ? '<span class="ok">Succeeded</span>'
+          : `<span class="failed">Failed (${escapeHtml(record.code ?? 'ERROR')})</span>`;
+      return `
+        <tr>
+          <td>${formatTime(record.at)}${caller}</td>
+          <td>${escapeHtml(device)}${source}</td>
+          <td>${outcome}<br><span class="muted">${escapeHtml(record.message)}</span></td>
+        </tr>`;
+    })
+    .join('');
+
+  return `
+    <section>
+      <h2>Recent transfers</h2>
+      <table>
+        <tr><th>When</th><th>Device</th><th>Outcome</th></tr>
+        ${rows}
+      </table>
+    </section>`;
+}
+
+/**
+ * Render the status page for a connected account
+ */
+export function renderStatusPage(data: StatusPageData): string {
+  const now = Math.floor(Date.now() / 1000);
+  const notice = data.notice
+    ? `<div class="notice ${data.notice.ok ? 'ok' : 'failed'}">
+        ${escapeHtml(data.notice.message)}
+      </div>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <title>Spotify Playback Transfer Status</title>
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <style>${STYLES}</style>
+  </head>
+  <body>
+    <div class="container">
+      <h1>Status</h1>
+      ${notice}
+      ${renderAccount(data, now)}
+      ${renderDevices(data)}
+      ${renderHistory(data)}
+      <p class="muted"><a href="/status">Refresh</a></p>
+    </div>
+  </body>
+</html>`;
+}
+
+/**
+ * Render the page shown when /status is opened without a session or key
+ */
+export function renderStatusSignIn(): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <title>Sign in</title>
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <style>${STYLES}</style>
+  </head>
+  <body>
+    <div class="container">
+      <h1>Status</h1>
+      <section>
+        <p>Sign in with Spotify to see this worker's status.</p>
+        <p><a href="/login">Connect Spotify</a></p>
+        <p class="muted">Scripts can send an <b>X-Automation-Key</b> header instead.</p>
+      </section>
+    </div>
+  </body>
+</html>`;
+}
@@ -1,64 +1,154 @@
 /**
  * KV Storage helpers for Spotify tokens
+ * Tokens are encrypted at rest when TOKEN_ENCRYPTION_KEY is configured
  */
 
+import { open, seal } from './encryption';
+
 export interface Tokens {
   access_token: string;
   refresh_token: string;
   expires_at: number; // Unix timestamp in seconds
+  issued_at?: number; // Unix timestamp in seconds of the login or last refresh
 }
 
 export interface Env {
   TOKENS_KV: KVNamespace;
+  RATE_LIMITER: DurableObjectNamespace; // RateLimiter objects, one per rate limit bucket
   SPOTIFY_CLIENT_ID: string;
-  SPOTIFY_CLIENT_SECRET: string;
+  SPOTIFY_CLIENT_SECRET?: string; // Unset: use the Authorization Code + PKCE flow
   SPOTIFY_REDIRECT_URI: string;
   AUTOMATION_KEY: string;
   BASE_URL: string;
+  TOKEN_ENCRYPTION_KEY?: string; // base64, 32 bytes
+  TOKEN_ENCRYPTION_KEYS_PREVIOUS?: string; // Comma-separated keys still accepted for reading
+  RATE_LIMIT_PER_IP?: string; // "<requests>/<seconds>", or "off"
+  RATE_LIMIT_PER_KEY?: string; // "<requests>/<seconds>", or "off"
+  LOCKOUT_AFTER_INVALID_KEYS?: string; // "<invalid keys>/<seconds>", or "off"
+  LOCKOUT_SECONDS?: string;
+  WEBHOOK_SECRET?: string; // Signs completion webhooks; required for any to be sent
+  WEBHOOK_URLS?: string; // Comma-separated endpoints notified of every background transfer
+  // Spotify endpoints; only set these to test against a fake Spotify (see emulator.ts)
+  SPOTIFY_API_BASE?: string; // Default https://api.spotify.com/v1
+  SPOTIFY_TOKEN_URL?: string; // Default https://accounts.spotify.com/api/token
+  SPOTIFY_AUTH_URL?: string; // Default https://accounts.spotify.com/authorize
 }
 
-const TOKENS_KEY = "spotify_tokens";
+const TOKENS_KEY_PREFIX = "spotify_tokens:";
+const LEGACY_TOKENS_KEY = "spotify_tokens"; // The single connection stored before accounts
+
+function tokensKey(accountId: string): string {
+  return `${TOKENS_KEY_PREFIX}${accountId}`;
+}
 
 /**
- * Read tokens from KV storage
+ * Thrown when an account has stored tokens that the configured keys cannot decrypt, e.g.
+ * after TOKEN_ENCRYPTION_KEY was replaced without listing the old key in
+ * TOKEN_ENCRYPTION_KEYS_PREVIOUS. The tokens are left in place: fixing the keys restores
+ * access without logging in again.
  */
-export async function readTokens(env: Env): Promise<Tokens | null> {
+export class TokenDecryptionError extends Error {
+  constructor(accountId: string, cause: unknown) {
+    super(
+      `Stored tokens for ${accountId} cannot be decrypted: ` +
+        (cause instanceof Error ? cause.message : String(cause))
+    );
+    this.name = 'TokenDecryptionError';
+  }
+}
+
+/**
+ * Read tokens for an account from KV storage
+ * Throws TokenDecryptionError when tokens are stored but cannot be decrypted.
+ */
+export async function readTokens(env: Env, accountId: string): Promise<Tokens | null> {
   try {
-    const data = await env.TOKENS_KV.get(TOKENS_KEY);
+    const key = tokensKey(accountId);
+    const data = await env.TOKENS_KV.get(key);
     
     if (!data) {
       return null;
     }
 
-    const tokens = JSON.parse(data) as Tokens;
+    const { plaintext, needsReseal } = await open(data, key, env).catch((error) => {
+      throw new TokenDecryptionError(accountId, error);
+    });
+    const tokens = JSON.parse(plaintext) as Tokens;
 
     // Validate token structure
     if (!tokens.access_token || !tokens.refresh_token || !tokens.expires_at) {
       return null;
     }
 
+    // Migrate plaintext entries and entries sealed with a rotated-out key
+    if (needsReseal) {
+      await writeTokens(tokens, env, accountId).catch((error) =>
+        console.error('Error re-encrypting tokens:', error)
+      );
+    }
+
     return tokens;
   } catch (error) {
     console.error('Error reading tokens from KV:', error);
+    if (error instanceof TokenDecryptionError) {
+      throw error;
+    }
     return null;
   }
 }
 
 /**
- * Write tokens to KV storage
+ * Write tokens for an account to KV storage
  */
-export async function writeTokens(tokens: Tokens, env: Env): Promise<void> {
+export async function writeTokens(tokens: Tokens, env: Env, accountId: string): Promise<void> {
   try {
     // Validate token structure before writing
     if (!tokens.access_token || !tokens.refresh_token || !tokens.expires_at) {
       throw new Error('Invalid token structure');
     }
 
-    const data = JSON.stringify(tokens);
-    await env.TOKENS_KV.put(TOKENS_KEY, data);
+    const key = tokensKey(accountId);
+    const data = await seal(JSON.stringify(tokens), key, env);
+    await env.TOKENS_KV.put(key, data);
   } catch (error) {
     console.error('Error writing tokens to KV:', error);
     throw new Error('Failed to save tokens');
   }
 }
 
+/**
+ * Delete the stored tokens for an account
+ */
+export async function deleteTokens(env: Env, accountId: string): Promise<void> {
+  await env.TOKENS_KV.delete(tokensKey(accountId));
+}
+
+/**
+ * Read the tokens stored by deployments from before accounts existed, if any are left
+ * (see migrateLegacyTokens in accounts.ts)
+ */
+export async function readLegacyTokens(env: Env): Promise<Tokens | null> {
+  try {
+    const data = await env.TOKENS_KV.get(LEGACY_TOKENS_KEY);
+    if (!data) {
+      return null;
+    }
+
+    const { plaintext } = await open(data, LEGACY_TOKENS_KEY, env);
+    const tokens = JSON.parse(plaintext) as Tokens;
+    if (!tokens.access_token || !tokens.refresh_token || !tokens.expires_at) {
+      return null;
+    }
+    return tokens;
+  } catch (error) {
+    console.error('Error reading legacy tokens from KV:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete the legacy token entry once it has been moved to an account
+ */
+export async function deleteLegacyTokens(env: Env): Promise<void> {
+  await env.TOKENS_KV.delete(LEGACY_TOKENS_KEY);
+}
@@ -0,0 +1,201 @@
+/**
+ * Named transfer targets: stored device match rules and the resolver that applies them
+ */
+
+import { Env } from './storage';
+import { SpotifyDevice } from './spotify';
+import { StoredVolume } from './volume';
+
+export interface TargetRules {
+  names?: string[]; // Exact device names (case-insensitive)
+  contains?: string[]; // Substrings of the device name (case-insensitive)
+  pattern?: string; // Regular expression tested against the device name (case-insensitive)
+  types?: string[]; // Spotify device types, e.g. "Speaker", "Smartphone"
+  excludeRestricted?: boolean; // Skip devices that do not accept Web API commands
+  excludePrivate?: boolean; // Skip devices in a private session
+}
+
+export interface Target {
+  name: string;
+  rules: TargetRules;
+  volume?: number; // Default volume (0-100), set after every transfer to this target
+  builtin?: boolean;
+}
+
+/**
+ * Targets available to every account unless overridden by a stored target of the same name
+ */
+export const BUILTIN_TARGETS: Target[] = [
+  {
+    name: 'echo',
+    rules: { pattern: '\\b(echo|dot)\\b' },
+    builtin: true,
+  },
+];
+
+const TARGETS_KEY_PREFIX = 'targets:';
+const TARGET_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+// Names taken by other /api/transfer/<name> routes
+export const RESERVED_TARGET_NAMES = ['back'];
+
+/**
+ * Stored targets saved before their name was reserved. /api/transfer/<name> reaches the
+ * other route, so they only work as fallback chain candidates until renamed.
+ */
+export function shadowedTargets(targets: Target[]): Target[] {
+  return targets.filter((target) => !target.builtin && RESERVED_TARGET_NAMES.includes(target.name));
+}
+
+/**
+ * Check whether a target name can be used as a /api/transfer/:target path segment
+ */
+export function isValidTargetName(name: unknown): name is string {
+  return typeof name === 'string' && TARGET_NAME_PATTERN.test(name);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item !== '');
+}
+
+/**
+ * Validate match rules from a request body
+ * Returns a human-readable problem, or null when the rules are usable
+ */
+export function validateTargetRules(rules: unknown): string | null {
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    return 'rules must be an object';
+  }
+
+  const { names, contains, pattern, types, excludeRestricted, excludePrivate } =
+    rules as Record<string, unknown>;
+
+  if (names !== undefined && !isStringArray(names)) {
+    return 'rules.names must be an array of strings';
+  }
+  if (contains !== undefined && !isStringArray(contains)) {
+    return 'rules.contains must be an array of strings';
+  }
+  if (types !== undefined && !isStringArray(types)) {
+    return 'rules.types must be an array of strings';
+  }
+  if (pattern !== undefined) {
+    if (typeof pattern !== 'string' || pattern === '') {
+      return 'rules.pattern must be a non-empty string';
+    }
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      return 'rules.pattern is not a valid regular expression';
+    }
+  }
+  if (excludeRestricted !== undefined && typeof excludeRestricted !== 'boolean') {
+    return 'rules.excludeRestricted must be a boolean';
+  }
+  if (excludePrivate !== undefined && typeof excludePrivate !== 'boolean') {
+    return 'rules.excludePrivate must be a boolean';
+  }
+  if ([names, contains, pattern, types].every((rule) => rule === undefined)) {
+    return 'rules must include at least one of names, contains, pattern or types';
+  }
+
+  return null;
+}
+
+/**
+ * Check if a device satisfies a target's match rules.
+ * Name rules (names, contains, pattern) match if any of them matches; type and
+ * exclusion rules must all hold.
+ */
+export function matchesTarget(device: SpotifyDevice, rules: TargetRules): boolean {
+  if (rules.excludeRestricted && device.is_restricted) {
+    return false;
+  }
+  if (rules.excludePrivate && device.is_private_session) {
+    return false;
+  }
+
+  const deviceType = device.type.toLowerCase();
+  if (rules.types && !rules.types.some((type) => type.toLowerCase() === deviceType)) {
+    return false;
+  }
+
+  const hasNameRules = !!(rules.names || rules.contains || rules.pattern);
+  if (!hasNameRules) {
+    return true;
+  }
+
+  const name = device.name.toLowerCase();
+  if (rules.names?.some((exact) => exact.toLowerCase() === name)) {
+    return true;
+  }
+  if (rules.contains?.some((part) => name.includes(part.toLowerCase()))) {
+    return true;
+  }
+  if (rules.pattern && new RegExp(rules.pattern, 'i').test(device.name)) {
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Return the devices matching a target
+ */
+export function resolveTargetDevices(devices: SpotifyDevice[], target: Target): SpotifyDevice[] {
+  return devices.filter((device) => matchesTarget(device, target.rules));
+}
+
+/**
+ * A target's default volume, if it has one
+ */
+export function targetDefaultVolume(target: Target): StoredVolume | undefined {
+  return target.volume === undefined ? undefined : { source: 'target', percent: target.volume };
+}
+
+/**
+ * Read the targets stored for an account (built-in targets not included)
+ */
+export async function readStoredTargets(env: Env, accountId: string): Promise<Target[]> {
+  try {
+    const data = await env.TOKENS_KV.get(`${TARGETS_KEY_PREFIX}${accountId}`);
+    return data ? (JSON.parse(data) as Target[]) : [];
+  } catch (error) {
+    console.error('Error reading targets from KV:', error);
+    return [];
+  }
+}
+
+/**
+ * Write the stored targets for an account
+ */
+export async function writeStoredTargets(
+  env: Env,
+  accountId: string,
+  targets: Target[]
+): Promise<void> {
+  await env.TOKENS_KV.put(`${TARGETS_KEY_PREFIX}${accountId}`, JSON.stringify(targets));
+}
+
+/**
+ * List all targets for an account: stored targets plus built-ins that are not overridden
+ */
+export async function listTargets(env: Env, accountId: string): Promise<Target[]> {
+  const stored = await readStoredTargets(env, accountId);
+  const builtins = BUILTIN_TARGETS.filter(
+    (builtin) => !stored.some((target) => target.name === builtin.name)
+  );
+  return [...stored, ...builtins];
+}
+
+/**
+ * Look up a single target by name
+ */
+export async function findTarget(
+  env: Env,
+  accountId: string,
+  name: string
+): Promise<Target | null> {
+  const targets = await listTargets(env, accountId);
+  return targets.find((target) => target.name === name) ?? null;
+}
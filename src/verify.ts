@@ -0,0 +1,105 @@
+/**
+ * Transfer verification: poll /me/player after a transfer until the target device is
+ * actually active (and playing), or a deadline passes
+ */
+
+import { Env } from './storage';
+import { spotifyFetch } from './spotify';
+import { SpotifyPlaybackResponse } from './player';
+
+export interface VerifyOptions {
+  timeoutMs: number;
+}
+
+export type VerificationStatus = 'confirmed' | 'unconfirmed' | 'moved_elsewhere';
+
+export interface TransferVerification {
+  status: VerificationStatus;
+  observedDevice: { id: string; name: string; is_playing: boolean } | null;
+  polls: number;
+  elapsedMs: number;
+}
+
+export const DEFAULT_VERIFY_TIMEOUT_MS = 8000;
+export const MAX_VERIFY_TIMEOUT_MS = 20000;
+const VERIFY_POLL_INTERVAL_MS = 750;
+
+/**
+ * Wait for a number of milliseconds; shared by every retry and polling loop
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Read the device Spotify currently reports as active, or null when nothing is playing
+ */
+async function observeActiveDevice(
+  env: Env,
+  accountId: string
+): Promise<TransferVerification['observedDevice']> {
+  const response = await spotifyFetch('/me/player', { method: 'GET' }, env, accountId);
+
+  // 204 (no session) and transient errors both mean "not confirmed yet"
+  if (response.status === 204 || !response.ok) {
+    return null;
+  }
+
+  const data = await response.json<SpotifyPlaybackResponse>();
+  if (!data.device) {
+    return null;
+  }
+
+  return { id: data.device.id, name: data.device.name, is_playing: data.is_playing };
+}
+
+/**
+ * Poll until `deviceId` is the active device (and playing, when `expectPlaying`),
+ * or the deadline passes.
+ *   confirmed:       the target device is active (and playing)
+ *   moved_elsewhere: another device was active when the deadline passed
+ *   unconfirmed:     nothing conclusive was observed before the deadline
+ */
+export async function verifyTransfer(
+  env: Env,
+  accountId: string,
+  deviceId: string,
+  expectPlaying: boolean,
+  options: VerifyOptions
+): Promise<TransferVerification> {
+  const startedAt = Date.now();
+  const deadline = startedAt + options.timeoutMs;
+  let observed: TransferVerification['observedDevice'] = null;
+  let polls = 0;
+
+  while (true) {
+    polls++;
+    try {
+      observed = await observeActiveDevice(env, accountId);
+    } catch (error) {
+      console.warn('Error polling playback state during verification:', error);
+      observed = null;
+    }
+
+    if (observed && observed.id === deviceId && (observed.is_playing || !expectPlaying)) {
+      return {
+        status: 'confirmed',
+        observedDevice: observed,
+        polls,
+        elapsedMs: Date.now() - startedAt,
+      };
+    }
+
+    if (Date.now() + VERIFY_POLL_INTERVAL_MS > deadline) {
+      break;
+    }
+    await sleep(VERIFY_POLL_INTERVAL_MS);
+  }
+
+  return {
+    status: observed && observed.id !== deviceId ? 'moved_elsewhere' : 'unconfirmed',
+    observedDevice: observed,
+    polls,
+    elapsedMs: Date.now() - startedAt,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Volume handoff: once a transfer lands, set the new device's volume to an explicit
+ * level, to the volume of the device that was playing before, or to the default stored
+ * on the transfer target or for the device (see devicevolumes.ts)
+ */
+
+import { Env } from './storage';
+import { classifySpotifyError, spotifyFetch } from './spotify';
+
+export type VolumeOption = number | 'source'; // 0-100, or carry over the previous device's
+
+export type VolumeSource = 'request' | 'source_device' | 'target' | 'device';
+
+/**
+ * A stored default volume and where it is stored
+ */
+export interface StoredVolume {
+  source: 'target' | 'device';
+  percent: number;
+}
+
+/**
+ * The volume to set after a transfer; percent is null when it could not be determined
+ */
+export interface VolumePlan {
+  source: VolumeSource;
+  percent: number | null;
+  reason: string | null; // Why percent is null
+}
+
+export interface VolumeHandoff {
+  status: 'set' | 'unsupported' | 'skipped' | 'failed';
+  source: VolumeSource;
+  percent: number | null;
+  reason: string | null; // Why the volume was not set
+}
+
+/**
+ * Check a transfer's volume option
+ * Returns a human-readable problem, or null when it is usable
+ */
+export function validateVolumeOption(value: unknown): string | null {
+  if (value === undefined || value === 'source') {
+    return null;
+  }
+  if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > 100) {
+    return 'volume must be an integer from 0 to 100, or "source"';
+  }
+  return null;
+}
+
+/**
+ * Decide which volume to set: an explicit or carried-over volume from the request wins
+ * over a stored default. Returns null when there is nothing to set.
+ */
+export function planVolume(
+  option: VolumeOption | null,
+  sourceVolume: { name: string | null; percent: number | null } | null, // Device playing before
+  storedDefault: StoredVolume | null
+): VolumePlan | null {
+  if (typeof option === 'number') {
+    return { source: 'request', percent: option, reason: null };
+  }
+  if (option === 'source') {
+    if (!sourceVolume) {
+      return { source: 'source_device', percent: null, reason: 'No device was playing before' };
+    }
+    if (sourceVolume.percent === null) {
+      return {
+        source: 'source_device',
+        percent: null,
+        reason: `${sourceVolume.name ?? 'The previous device'} does not report its volume`,
+      };
+    }
+    return { source: 'source_device', percent: sourceVolume.percent, reason: null };
+  }
+  if (storedDefault !== null) {
+    return { source: storedDefault.source, percent: storedDefault.percent, reason: null };
+  }
+  return null;
+}
+
+const VOLUME_UNSUPPORTED_REASON = 'The device does not support volume control';
+
+/**
+ * Set the volume on the device a transfer landed on
+ * supportsVolume comes from Spotify's device list (null when it was not fetched); a device
+ * that reports no volume control is not asked at all.
+ * Never throws: the transfer has already succeeded, so problems are only reported.
+ */
+export async function applyVolume(
+  env: Env,
+  accountId: string,
+  deviceId: string,
+  plan: VolumePlan,
+  supportsVolume: boolean | null
+): Promise<VolumeHandoff> {
+  const { source, percent } = plan;
+  if (percent === null) {
+    return { status: 'skipped', source, percent, reason: plan.reason };
+  }
+  if (supportsVolume === false) {
+    return { status: 'unsupported', source, percent, reason: VOLUME_UNSUPPORTED_REASON };
+  }
+
+  try {
+    const query = new URLSearchParams({ volume_percent: String(percent), device_id: deviceId });
+    const response = await spotifyFetch(
+      `/me/player/volume?${query}`,
+      { method: 'PUT' },
+      env,
+      accountId
+    );
+    if (response.ok) {
+      return { status: 'set', source, percent, reason: null };
+    }
+
+    const error = await classifySpotifyError(response);
+    if (error.kind === 'DEVICE_RESTRICTED') {
+      return { status: 'unsupported', source, percent, reason: VOLUME_UNSUPPORTED_REASON };
+    }
+    return { status: 'failed', source, percent, reason: error.message };
+  } catch (error) {
+    console.error('Error setting volume after transfer:', error);
+    return { status: 'failed', source, percent, reason: 'Failed to set volume' };
+  }
+}
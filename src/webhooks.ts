@@ -0,0 +1,218 @@
+/**
+ * Completion webhooks: a signed POST to the caller's callbackUrl and to the configured
+ * default endpoints once a background transfer job succeeds or fails
+ *
+ * Each delivery carries X-Webhook-Timestamp and X-Webhook-Signature: sha256=<hex>, the
+ * HMAC-SHA256 of "<timestamp>.<body>" keyed by WEBHOOK_SECRET. Network errors, 429s and
+ * 5xx responses are retried with bounded backoff until the job's deadline.
+ */
+
+import { Env } from './storage';
+import { TransferJob } from './jobs';
+import { sleep } from './verify';
+
+export interface TransferWebhookPayload {
+  event: 'transfer.completed';
+  jobId: string;
+  accountId: string;
+  status: 'SUCCEEDED' | 'FAILED';
+  device: { id: string; name: string | null } | null;
+  target: string | null;
+  attempts: number;
+  startedFresh: boolean; // Fallback content was started because nothing was playing
+  error: TransferJob['error'];
+  verification: TransferJob['verification'];
+  volume: TransferJob['volume'];
+  completed_at: number; // Unix timestamp in seconds
+}
+
+const WEBHOOK_MAX_ATTEMPTS = 3;
+const WEBHOOK_BASE_DELAY_MS = 500;
+const WEBHOOK_MAX_DELAY_MS = 1000;
+const WEBHOOK_TIMEOUT_MS = 1500;
+
+/**
+ * The longest one endpoint's delivery can take: every attempt timing out, with the longest
+ * backoff between them. Background jobs keep this much of their budget for delivery.
+ */
+export const WEBHOOK_DELIVERY_BUDGET_MS =
+  WEBHOOK_MAX_ATTEMPTS * WEBHOOK_TIMEOUT_MS + (WEBHOOK_MAX_ATTEMPTS - 1) * WEBHOOK_MAX_DELAY_MS;
+
+// Local receivers for development may use plain http; everything else must use https
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Check that a webhook URL is an absolute https URL, or http on a loopback host
+ * Payloads are signed but not encrypted, so they must not cross the network in the clear.
+ */
+export function isValidWebhookUrl(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return (
+      url.protocol === 'https:' ||
+      (url.protocol === 'http:' && LOOPBACK_HOSTNAMES.includes(url.hostname))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The default endpoints from WEBHOOK_URLS (comma-separated), notified for every job
+ */
+export function defaultWebhookUrls(env: Env): string[] {
+  return (env.WEBHOOK_URLS ?? '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter((url) => url !== '');
+}
+
+/**
+ * Build the payload sent when a job settles
+ */
+export function transferWebhookPayload(job: TransferJob): TransferWebhookPayload {
+  return {
+    event: 'transfer.completed',
+    jobId: job.id,
+    accountId: job.accountId,
+    status: job.status === 'SUCCEEDED' ? 'SUCCEEDED' : 'FAILED',
+    device: job.deviceId ? { id: job.deviceId, name: job.deviceName } : null,
+    target: job.target,
+    attempts: job.attempts,
+    startedFresh: job.startedFresh,
+    error: job.error,
+    verification: job.verification,
+    volume: job.volume,
+    completed_at: job.completed_at ?? Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * Sign a webhook body: hex HMAC-SHA256 of "<timestamp>.<body>"
+ */
+export async function signWebhook(
+  secret: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function shouldRetryDelivery(response: Response | null): boolean {
+  return response === null || response.status === 429 || response.status >= 500;
+}
+
+function getDeliveryDelayMs(attempt: number, response: Response | null): number {
+  const retryAfterSeconds = Number(response?.headers.get('Retry-After'));
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) {
+    return Math.min(retryAfterSeconds * 1000, WEBHOOK_MAX_DELAY_MS);
+  }
+  return Math.min(WEBHOOK_BASE_DELAY_MS * 2 ** (attempt - 1), WEBHOOK_MAX_DELAY_MS);
+}
+
+/**
+ * POST a payload to one endpoint, retrying transient failures until the deadline
+ * (Unix timestamp in milliseconds). Returns whether the endpoint accepted it (any 2xx).
+ */
+async function deliverWebhook(
+  url: string,
+  secret: string,
+  id: string,
+  body: string,
+  deadline: number
+): Promise<boolean> {
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      console.error(`Webhook delivery to ${url} ran out of time after ${attempt - 1} attempt(s)`);
+      return false;
+    }
+
+    // Sign each attempt afresh, so receivers can reject stale timestamps
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = await signWebhook(secret, timestamp, body);
+
+    let response: Response | null = null;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': id,
+          'X-Webhook-Attempt': String(attempt),
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signature}`,
+        },
+        body,
+        signal: AbortSignal.timeout(Math.min(WEBHOOK_TIMEOUT_MS, remainingMs)),
+      });
+    } catch (error) {
+      console.error(`Webhook delivery to ${url} failed (attempt ${attempt}):`, error);
+    }
+
+    if (response?.ok) {
+      return true;
+    }
+    if (!shouldRetryDelivery(response) || attempt === WEBHOOK_MAX_ATTEMPTS) {
+      console.error(`Webhook delivery to ${url} gave up after ${attempt} attempt(s)`, {
+        status: response?.status ?? null,
+      });
+      return false;
+    }
+    await sleep(Math.min(getDeliveryDelayMs(attempt, response), deadline - Date.now()));
+  }
+
+  return false;
+}
+
+/**
+ * Notify a job's callbackUrl and the default endpoints that it settled, within what is
+ * left of the job's deadline
+ * Never throws: a failed delivery must not affect the transfer or its history.
+ */
+export async function deliverTransferWebhooks(
+  env: Env,
+  job: TransferJob,
+  callbackUrl: string | null
+): Promise<void> {
+  const defaults = defaultWebhookUrls(env).filter((url) => {
+    const valid = isValidWebhookUrl(url);
+    if (!valid) {
+      console.error(`Skipping invalid WEBHOOK_URLS entry: ${url}`);
+    }
+    return valid;
+  });
+  const urls = Array.from(new Set([...(callbackUrl ? [callbackUrl] : []), ...defaults]));
+  if (urls.length === 0) {
+    return;
+  }
+  const secret = env.WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('Webhooks are configured but WEBHOOK_SECRET is not set; not delivering');
+    return;
+  }
+
+  const body = JSON.stringify(transferWebhookPayload(job));
+  await Promise.all(
+    urls.map((url) =>
+      deliverWebhook(url, secret, job.id, body, job.deadline_at * 1000).catch((error) => {
+        console.error(`Webhook delivery to ${url} failed:`, error);
+        return false;
+      })
+    )
+  );
+}
@@ -0,0 +1,697 @@
+/**
+ * End-to-end tests: run the worker and the Spotify emulator (src/emulator.ts) under
+ * `wrangler dev`, point the worker at the emulator, and drive both over HTTP.
+ *
+ * Run with `npm test`. Each run uses a fresh, temporary KV directory.
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { createHmac } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const WORKER_PORT = 8797;
+const EMULATOR_PORT = 8798;
+const WEBHOOK_PORT = 8799;
+const WORKER = `http://127.0.0.1:${WORKER_PORT}`;
+const EMULATOR = `http://127.0.0.1:${EMULATOR_PORT}`;
+const AUTOMATION_KEY = 'e2e-automation-key';
+const WEBHOOK_SECRET = 'e2e-webhook-secret';
+const STARTUP_TIMEOUT_MS = 60000;
+
+const persistDir = mkdtempSync(join(tmpdir(), 'spotify-worker-e2e-'));
+const servers = [];
+
+/**
+ * Start `wrangler dev` in its own process group, so stopping it also stops workerd
+ */
+function startWrangler(args) {
+  const child = spawn('node_modules/.bin/wrangler', ['dev', ...args], {
+    detached: true,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let output = '';
+  child.stdout.on('data', (chunk) => (output += chunk));
+  child.stderr.on('data', (chunk) => (output += chunk));
+  const server = { child, output: () => output };
+  servers.push(server);
+  return server;
+}
+
+async function waitUntilUp(url, server) {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (server.child.exitCode !== null) {
+      throw new Error(`wrangler dev exited early:\n${server.output()}`);
+    }
+    try {
+      await fetch(url);
+      return;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+  }
+  throw new Error(`${url} did not come up in time:\n${server.output()}`);
+}
+
+function api(path, init = {}) {
+  return fetch(`${WORKER}${path}`, {
+    ...init,
+    headers: {
+      'X-Automation-Key': AUTOMATION_KEY,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+}
+
+function emulator(path, method = 'GET', body = undefined) {
+  return fetch(`${EMULATOR}/_emulator${path}`, {
+    method,
+    ...(body && { body: JSON.stringify(body) }),
+  });
+}
+
+async function emulatorRequests() {
+  const state = await (await emulator('/state')).json();
+  return state.requests.map((request) => `${request.method} ${request.path} ${request.status}`);
+}
+
+/**
+ * Log in through /login, the emulator's authorize page and /callback, as a browser would
+ */
+async function login() {
+  const start = await fetch(`${WORKER}/login`, { redirect: 'manual' });
+  assert.equal(start.status, 302);
+  const cookie = start.headers.get('Set-Cookie').split(';')[0];
+  const authorizeUrl = new URL(start.headers.get('Location'));
+
+  const consent = await fetch(authorizeUrl, { redirect: 'manual' });
+  assert.equal(consent.status, 302);
+  const callback = await fetch(consent.headers.get('Location'), {
+    headers: { Cookie: cookie },
+    redirect: 'manual',
+  });
+  return { authorizeUrl, callback };
+}
+
+before(async () => {
+  const emulatorServer = startWrangler([
+    '--config', 'wrangler.emulator.toml',
+    '--port', String(EMULATOR_PORT),
+    '--inspector-port', String(EMULATOR_PORT + 1000),
+    '--ip', '127.0.0.1',
+    '--persist-to', join(persistDir, 'emulator'),
+  ]);
+  const workerServer = startWrangler([
+    '--port', String(WORKER_PORT),
+    '--inspector-port', String(WORKER_PORT + 1000),
+    '--ip', '127.0.0.1',
+    '--persist-to', join(persistDir, 'worker'),
+    // Exposes /__scheduled, which runs the cron handler on demand
+    '--test-scheduled',
+    '--var', 'SPOTIFY_CLIENT_ID:e2e-client',
+    '--var', `SPOTIFY_REDIRECT_URI:${WORKER}/callback`,
+    '--var', `AUTOMATION_KEY:${AUTOMATION_KEY}`,
+    '--var', `BASE_URL:${WORKER}`,
+    '--var', `SPOTIFY_API_BASE:${EMULATOR}/v1`,
+    '--var', `SPOTIFY_TOKEN_URL:${EMULATOR}/api/token`,
+    '--var', `SPOTIFY_AUTH_URL:${EMULATOR}/authorize`,
+    '--var', 'RATE_LIMIT_PER_IP:off',
+    '--var', 'RATE_LIMIT_PER_KEY:off',
+    '--var', `WEBHOOK_SECRET:${WEBHOOK_SECRET}`,
+  ]);
+  await Promise.all([
+    waitUntilUp(`${EMULATOR}/_emulator/state`, emulatorServer),
+    waitUntilUp(`${WORKER}/health`, workerServer),
+  ]);
+});
+
+after(() => {
+  for (const { child } of servers) {
+    if (child.exitCode === null) {
+      process.kill(-child.pid, 'SIGTERM');
+    }
+  }
+  rmSync(persistDir, { recursive: true, force: true });
+});
+
+describe('login', () => {
+  test('connects the account with Authorization Code + PKCE', async () => {
+    const { authorizeUrl, callback } = await login();
+
+    // No client secret is configured, so the worker runs as a public client
+    assert.equal(authorizeUrl.searchParams.get('code_challenge_method'), 'S256');
+    assert.match(authorizeUrl.searchParams.get('code_challenge'), /^[A-Za-z0-9_-]{43}$/);
+    assert.equal(callback.status, 200);
+    assert.ok(callback.headers.get('Set-Cookie'), 'callback starts a status page session');
+
+    const devices = await api('/api/devices');
+    assert.equal(devices.status, 200);
+    const body = await devices.json();
+    assert.deepEqual(
+      body.devices.map((device) => device.id),
+      ['phone', 'echo-dot']
+    );
+  });
+
+  test('rejects a callback whose code verifier does not match', async () => {
+    const start = await fetch(`${WORKER}/login`, { redirect: 'manual' });
+    const consent = await fetch(start.headers.get('Location'), { redirect: 'manual' });
+    // A state cookie from another login carries another verifier
+    const other = await fetch(`${WORKER}/login`, { redirect: 'manual' });
+    const otherState = new URL(other.headers.get('Location')).searchParams.get('state');
+    const callbackUrl = new URL(consent.headers.get('Location'));
+    callbackUrl.searchParams.set('state', otherState);
+
+    const callback = await fetch(callbackUrl, {
+      headers: { Cookie: other.headers.get('Set-Cookie').split(';')[0] },
+      redirect: 'manual',
+    });
+    assert.notEqual(callback.status, 200);
+  });
+});
+
+describe('transfer', () => {
+  test('moves playback to the Echo', async () => {
+    const response = await api('/api/transfer/echo?async=0', { method: 'POST' });
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.device.id, 'echo-dot');
+
+    const state = await (await emulator('/state')).json();
+    const active = state.devices.find((device) => device.is_active);
+    assert.equal(active.id, 'echo-dot');
+  });
+
+  test('moves playback to a device id', async () => {
+    const response = await api('/api/transfer?async=0', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId: 'phone' }),
+    });
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).success, true);
+
+    const state = await (await emulator('/state')).json();
+    const active = state.devices.find((device) => device.is_active);
+    assert.equal(active.id, 'phone');
+  });
+
+  test('goes back to the previous device right after a transfer', async () => {
+    const forward = await api('/api/transfer?async=0', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId: 'echo-dot' }),
+    });
+    assert.equal(forward.status, 200);
+
+    const back = await api('/api/transfer/back?async=0', { method: 'POST' });
+    assert.equal(back.status, 200);
+    assert.equal((await back.json()).device.id, 'phone');
+  });
+
+  test('starts fallback content when there is no session to transfer', async () => {
+    await emulator('/failures', 'POST', {
+      status: 404,
+      method: 'PUT',
+      path: '/v1/me/player',
+      reason: 'NO_ACTIVE_DEVICE',
+      message: 'Player command failed: No active device found',
+    });
+
+    const response = await api('/api/transfer?async=0', {
+      method: 'POST',
+      body: JSON.stringify({
+        deviceId: 'echo-dot',
+        fallbackContent: { context_uri: 'spotify:playlist:e2e', offset: { position: 2 } },
+      }),
+    });
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).startedFresh, true);
+    assert.deepEqual((await emulatorRequests()).slice(-2), [
+      'PUT /v1/me/player 404',
+      'PUT /v1/me/player/play 204',
+    ]);
+  });
+
+  test('does not start fallback content with play: false', async () => {
+    const logged = (await emulatorRequests()).length;
+    await emulator('/failures', 'POST', {
+      status: 404,
+      method: 'PUT',
+      path: '/v1/me/player',
+      reason: 'NO_ACTIVE_DEVICE',
+    });
+
+    const response = await api('/api/transfer?async=0', {
+      method: 'POST',
+      body: JSON.stringify({
+        deviceId: 'phone',
+        play: false,
+        fallbackContent: { context_uri: 'spotify:playlist:e2e' },
+      }),
+    });
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).startedFresh, false);
+    const requests = (await emulatorRequests()).slice(logged);
+    assert.deepEqual(requests.filter((line) => line.startsWith('PUT /v1/me/player')), [
+      'PUT /v1/me/player 404',
+      'PUT /v1/me/player 204',
+    ]);
+  });
+
+  test('rejects a malformed fallback content offset', async () => {
+    const response = await api('/api/transfer', {
+      method: 'POST',
+      body: JSON.stringify({
+        deviceId: 'phone',
+        fallbackContent: { context_uri: 'spotify:playlist:e2e', offset: { position: -1 } },
+      }),
+    });
+    assert.equal(response.status, 400);
+  });
+
+  test('rejects background options on a fallback chain', async () => {
+    const response = await api('/api/transfer?waitForDevice=5', {
+      method: 'POST',
+      body: JSON.stringify({ devices: [{ deviceId: 'phone' }] }),
+    });
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).error.code, 'INVALID_REQUEST');
+  });
+
+  test('moves a fallback chain on to a later candidate', async () => {
+    // Every retry of the transfer to the Echo Dot finds it gone
+    await emulator('/failures', 'POST', {
+      status: 404,
+      method: 'PUT',
+      path: '/v1/me/player',
+      times: 3,
+      message: 'Device not found',
+    });
+
+    const response = await api('/api/transfer', {
+      method: 'POST',
+      body: JSON.stringify({
+        devices: [{ name: 'Kitchen' }, { deviceId: 'echo-dot' }, { deviceId: 'phone' }],
+      }),
+    });
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.device.id, 'phone');
+    assert.deepEqual(
+      body.candidates.map((candidate) => candidate.status),
+      ['skipped', 'skipped', 'chosen']
+    );
+  });
+
+  test('ends a fallback chain on NO_ACTIVE_DEVICE', async () => {
+    await emulator('/failures', 'POST', {
+      status: 404,
+      method: 'PUT',
+      path: '/v1/me/player',
+      times: 3,
+      reason: 'NO_ACTIVE_DEVICE',
+      message: 'Player command failed: No active device found',
+    });
+
+    const response = await api('/api/transfer', {
+      method: 'POST',
+      body: JSON.stringify({ devices: [{ deviceId: 'echo-dot' }, { deviceId: 'phone' }] }),
+    });
+    assert.equal(response.status, 404);
+    const body = await response.json();
+    assert.equal(body.error.code, 'NO_ACTIVE_DEVICE');
+    assert.match(body.error.message, /No active device found/);
+    assert.deepEqual(
+      body.candidates.map((candidate) => candidate.status),
+      ['failed', 'not_tried']
+    );
+  });
+});
+
+describe('volume', () => {
+  test('sets a device default volume after a transfer by id', async () => {
+    const saved = await api('/api/devices/echo-dot/volume', {
+      method: 'PUT',
+      body: JSON.stringify({ volume: 35 }),
+    });
+    assert.equal(saved.status, 200);
+
+    const response = await api('/api/transfer?async=0', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId: 'echo-dot' }),
+    });
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.deepEqual(body.volume, { status: 'set', source: 'device', percent: 35, reason: null });
+    const state = await (await emulator('/state')).json();
+    assert.equal(state.devices.find((device) => device.id === 'echo-dot').volume_percent, 35);
+
+    assert.equal((await api('/api/devices/echo-dot/volume', { method: 'DELETE' })).status, 200);
+    assert.equal((await api('/api/devices/echo-dot/volume', { method: 'DELETE' })).status, 404);
+  });
+
+  test('does not set the volume on a device without volume control', async () => {
+    const { devices } = await (await emulator('/state')).json();
+    await emulator('/devices', 'PUT', {
+      devices: devices.map((device) =>
+        device.id === 'phone' ? { ...device, supports_volume: false } : device
+      ),
+    });
+    const logged = (await emulatorRequests()).length;
+
+    const response = await api('/api/transfer', {
+      method: 'POST',
+      body: JSON.stringify({ devices: [{ name: 'Phone' }], volume: 20 }),
+    });
+    await emulator('/devices', 'PUT', { devices });
+
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).volume.status, 'unsupported');
+    const requests = (await emulatorRequests()).slice(logged);
+    assert.ok(!requests.some((line) => line.startsWith('PUT /v1/me/player/volume')));
+  });
+});
+
+describe('retries', () => {
+  test('retries a 429 inline after Retry-After', async () => {
+    await emulator('/failures', 'POST', {
+      status: 429,
+      method: 'PUT',
+      path: '/v1/me/player',
+      retryAfter: 1,
+    });
+
+    const response = await api('/api/transfer?async=0', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId: 'echo-dot' }),
+    });
+    assert.equal(response.status, 200);
+
+    const transfers = (await emulatorRequests()).filter((line) =>
+      line.startsWith('PUT /v1/me/player ')
+    );
+    assert.deepEqual(transfers.slice(-2), ['PUT /v1/me/player 429', 'PUT /v1/me/player 204']);
+  });
+
+  test('reports SPOTIFY_RATE_LIMITED once the retries are used up', async () => {
+    await emulator('/failures', 'POST', {
+      status: 429,
+      method: 'PUT',
+      path: '/v1/me/player',
+      retryAfter: 1,
+      times: 3,
+    });
+
+    const response = await api('/api/transfer?async=0', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId: 'phone' }),
+    });
+    assert.equal(response.status, 429);
+    const body = await response.json();
+    assert.equal(body.error.code, 'SPOTIFY_RATE_LIMITED');
+  });
+
+  test('finishes a retried transfer in the background', async () => {
+    await emulator('/failures', 'POST', { status: 503, method: 'PUT', path: '/v1/me/player' });
+
+    const response = await api('/api/transfer', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId: 'phone' }),
+    });
+    assert.equal(response.status, 202);
+    const { jobId, status } = await response.json();
+    assert.equal(status, 'RETRYING');
+
+    let job;
+    for (let poll = 0; poll < 20; poll++) {
+      job = (await (await api(`/api/transfers/${jobId}`)).json()).job;
+      if (job.status !== 'RETRYING') {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+    assert.equal(job.status, 'SUCCEEDED');
+    assert.equal(job.attempts, 2);
+  });
+});
+
+describe('api keys', () => {
+  test('rejects a route outside the key\'s scopes', async () => {
+    const issued = await api('/api/keys', {
+      method: 'POST',
+      body: JSON.stringify({ label: 'e2e reader', scopes: ['devices:read'] }),
+    });
+    assert.equal(issued.status, 201);
+    const { automationKey } = await issued.json();
+    const headers = { 'X-Automation-Key': automationKey };
+
+    assert.equal((await api('/api/devices', { headers })).status, 200);
+    const transfer = await api('/api/transfer', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ deviceId: 'phone' }),
+    });
+    assert.equal(transfer.status, 403);
+    assert.equal((await transfer.json()).error.code, 'INSUFFICIENT_SCOPE');
+  });
+
+  test('stops accepting a revoked key', async () => {
+    const issued = await api('/api/keys', {
+      method: 'POST',
+      body: JSON.stringify({ label: 'e2e revoked', scopes: ['devices:read'] }),
+    });
+    const { automationKey, key } = await issued.json();
+
+    const revoked = await api(`/api/keys/${key.id}`, { method: 'DELETE' });
+    assert.equal(revoked.status, 200);
+    assert.ok((await revoked.json()).key.revoked_at);
+
+    const response = await api('/api/devices', { headers: { 'X-Automation-Key': automationKey } });
+    assert.equal(response.status, 401);
+    assert.equal((await response.json()).error.code, 'INVALID_AUTOMATION_KEY');
+  });
+
+  test('locks a client out with 429 after repeated invalid keys', async () => {
+    // Its own client address, so the lockout does not reach the other tests
+    const headers = { 'X-Automation-Key': 'not-a-key', 'CF-Connecting-IP': '203.0.113.7' };
+    let response;
+    for (let attempt = 0; attempt < 12; attempt++) {
+      response = await api('/api/devices', { headers });
+      if (response.status === 429) {
+        break;
+      }
+      assert.equal(response.status, 401);
+    }
+    assert.equal(response.status, 429);
+    assert.ok(Number(response.headers.get('Retry-After')) > 0);
+
+    // A valid key from that address is locked out too
+    const locked = await api('/api/devices', { headers: { 'CF-Connecting-IP': '203.0.113.7' } });
+    assert.equal(locked.status, 429);
+    assert.equal((await api('/api/devices')).status, 200);
+  });
+});
+
+describe('targets', () => {
+  test('transfers to the device a stored target resolves to', async () => {
+    const saved = await api('/api/targets', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'pocket', rules: { contains: ['phone'] } }),
+    });
+    assert.equal(saved.status, 201);
+
+    const response = await api('/api/transfer/pocket?async=0', { method: 'POST' });
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.device.id, 'phone');
+  });
+
+  test('resolves the built-in echo target', async () => {
+    const response = await api('/api/transfer/echo?async=0', { method: 'POST' });
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).device.id, 'echo-dot');
+  });
+
+  test('returns TARGET_NOT_FOUND for an unknown target', async () => {
+    const response = await api('/api/transfer/attic?async=0', { method: 'POST' });
+    assert.equal(response.status, 404);
+    assert.equal((await response.json()).error.code, 'TARGET_NOT_FOUND');
+  });
+});
+
+describe('schedules', () => {
+  test('runs a due schedule from the cron handler', async () => {
+    // /__scheduled runs the cron handler for the current time, so schedule this minute,
+    // leaving it enough seconds to still be due
+    if (new Date().getUTCSeconds() >= 50) {
+      await new Promise((resolve) => setTimeout(resolve, 11000));
+    }
+    const time = new Date().toISOString().slice(11, 16);
+    const created = await api('/api/schedules', {
+      method: 'POST',
+      body: JSON.stringify({ time, action: 'transfer', deviceId: 'phone' }),
+    });
+    assert.equal(created.status, 201);
+    const { schedule } = await created.json();
+    const logged = (await emulatorRequests()).length;
+
+    const cron = await fetch(`${WORKER}/__scheduled?cron=*+*+*+*+*`);
+    assert.equal(cron.status, 200);
+
+    const { schedule: ran } = await (await api(`/api/schedules/${schedule.id}`)).json();
+    assert.equal(ran.lastRun.status, 'SUCCEEDED');
+    assert.equal(ran.lastRun.deviceId, 'phone');
+    assert.ok((await emulatorRequests()).slice(logged).includes('PUT /v1/me/player 204'));
+  });
+});
+
+describe('webhooks', () => {
+  test('signs the delivery for a background transfer', async () => {
+    let deliver;
+    const delivered = new Promise((resolve) => (deliver = resolve));
+    const receiver = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        response.end();
+        deliver({ headers: request.headers, body });
+      });
+    });
+    await new Promise((resolve) => receiver.listen(WEBHOOK_PORT, '127.0.0.1', resolve));
+
+    try {
+      await emulator('/failures', 'POST', { status: 503, method: 'PUT', path: '/v1/me/player' });
+      const response = await api('/api/transfer', {
+        method: 'POST',
+        body: JSON.stringify({
+          deviceId: 'phone',
+          callbackUrl: `http://127.0.0.1:${WEBHOOK_PORT}/hook`,
+        }),
+      });
+      assert.equal(response.status, 202);
+      const { jobId } = await response.json();
+
+      const timeout = new Promise((_, reject) =>
+        setTimeout(() => reject(new Error('No webhook delivery within 15s')), 15000)
+      );
+      const { headers, body } = await Promise.race([delivered, timeout]);
+      const timestamp = headers['x-webhook-timestamp'];
+      const expected = createHmac('sha256', WEBHOOK_SECRET)
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+      assert.equal(headers['x-webhook-signature'], `sha256=${expected}`);
+      assert.equal(headers['x-webhook-id'], jobId);
+      const payload = JSON.parse(body);
+      assert.equal(payload.event, 'transfer.completed');
+      assert.equal(payload.status, 'SUCCEEDED');
+    } finally {
+      receiver.close();
+    }
+  });
+});
+
+describe('router', () => {
+  test('answers 405 with an Allow header for an unsupported method', async () => {
+    const response = await api('/api/devices', { method: 'DELETE' });
+    assert.equal(response.status, 405);
+    assert.equal(response.headers.get('Allow'), 'GET');
+    assert.equal((await response.json()).error.code, 'METHOD_NOT_ALLOWED');
+  });
+
+  test('rejects a body that does not match the route\'s schema', async () => {
+    const wrongType = await api('/api/transfer', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId: 42 }),
+    });
+    assert.equal(wrongType.status, 400);
+    assert.equal((await wrongType.json()).error.code, 'INVALID_REQUEST');
+
+    const malformed = await api('/api/transfer', { method: 'POST', body: '{"deviceId":' });
+    assert.equal(malformed.status, 400);
+    assert.equal((await malformed.json()).error.code, 'INVALID_REQUEST');
+  });
+
+  test('lists every route in the OpenAPI document', async () => {
+    const response = await fetch(`${WORKER}/openapi.json`);
+    assert.equal(response.status, 200);
+    const document = await response.json();
+    const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+      Object.keys(methods).map((method) => `${method.toUpperCase()} ${path}`)
+    );
+    assert.deepEqual(operations.sort(), [
+      'DELETE /api/devices/{id}/volume',
+      'DELETE /api/keys/{id}',
+      'DELETE /api/schedules/{id}',
+      'DELETE /api/targets/{name}',
+      'GET /api/devices',
+      'GET /api/devices/volumes',
+      'GET /api/history',
+      'GET /api/keys',
+      'GET /api/player',
+      'GET /api/schedules',
+      'GET /api/schedules/{id}',
+      'GET /api/targets',
+      'GET /api/targets/{name}',
+      'GET /api/transfers/{id}',
+      'GET /callback',
+      'GET /health',
+      'GET /login',
+      'GET /openapi.json',
+      'GET /status',
+      'POST /api/disconnect',
+      'POST /api/keys',
+      'POST /api/player/{command}',
+      'POST /api/schedules',
+      'POST /api/targets',
+      'POST /api/transfer',
+      'POST /api/transfer/back',
+      'POST /api/transfer/{target}',
+      'POST /status/transfer',
+      'PUT /api/devices/{id}/volume',
+      'PUT /api/schedules/{id}',
+      'PUT /api/targets/{name}',
+    ]);
+  });
+});
+
+describe('reconnect', () => {
+  test('returns RECONNECT_REQUIRED once Spotify rejects the refresh token', async () => {
+    // Short-lived access tokens make the worker refresh before every call
+    await emulator('/token-lifetime', 'PUT', { seconds: 30 });
+    const { callback } = await login();
+    assert.equal(callback.status, 200);
+    assert.equal((await api('/api/devices')).status, 200);
+
+    await emulator('/revoke', 'POST');
+    const response = await api('/api/devices');
+    assert.equal(response.status, 401);
+    const body = await response.json();
+    assert.equal(body.error.code, 'RECONNECT_REQUIRED');
+    assert.equal(body.loginUrl, `${WORKER}/login`);
+
+    // The dead tokens are gone: the next call needs a login too
+    const again = await api('/api/devices');
+    assert.equal((await again.json()).error.code, 'RECONNECT_REQUIRED');
+  });
+
+  test('returns RECONNECT_REQUIRED when the refresh after a rejected token fails', async () => {
+    // Long-lived access tokens: the worker only refreshes once Spotify rejects one
+    await emulator('/reset', 'POST');
+    const { callback } = await login();
+    assert.equal(callback.status, 200);
+
+    // The app was removed: the access token is rejected, and so is the refresh token
+    await emulator('/revoke', 'POST');
+    await emulator('/expire', 'POST');
+    const response = await api('/api/devices');
+    assert.equal(response.status, 401);
+    const body = await response.json();
+    assert.equal(body.error.code, 'RECONNECT_REQUIRED');
+    assert.equal(body.loginUrl, `${WORKER}/login`);
+  });
+});